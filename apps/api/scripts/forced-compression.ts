@@ -1,3 +1,4 @@
+import { generateSlug } from '@repo/shared-types';
 import { NotionService } from '../src/services/NotionService';
 import { ImageService } from '../src/services/ImageService';
 import fetch from 'node-fetch';
@@ -39,12 +40,6 @@ const targetSlugs = new Set([
     'valerio-sommella-design-studio'
 ]);
 
-function generateSlug(name: string): string {
-    return name.toLowerCase()
-        .replace(/[^a-z0-9]+/g, '-')
-        .replace(/(^-|-$)+/g, '');
-}
-
 async function run() {
     console.log('Fetching designers from Notion...');
     const designers = await NotionService.getDesigners(true);
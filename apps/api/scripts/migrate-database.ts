@@ -24,6 +24,106 @@ async function migrateDatabase() {
         console.log('ℹ️  content_hash already exists in products (or check failed)');
     }
 
+    // Hash of the source image bytes, so unchanged images aren't re-optimised
+    try {
+        await turso.execute(`
+            ALTER TABLE studios ADD COLUMN cover_source_hash TEXT
+        `);
+        console.log('✅ Added cover_source_hash to studios');
+    } catch (err) {
+        console.log('ℹ️  cover_source_hash already exists in studios (or check failed)');
+    }
+
+    try {
+        await turso.execute(`
+            ALTER TABLE product_images ADD COLUMN source_hash TEXT
+        `);
+        console.log('✅ Added source_hash to product_images');
+    } catch (err) {
+        console.log('ℹ️  source_hash already exists in product_images (or check failed)');
+    }
+
+    // Spotlight table, previously only created by scripts/migrate-spotlight.js
+    await turso.execute(`
+        CREATE TABLE IF NOT EXISTS spotlight (
+            id TEXT PRIMARY KEY,
+            product_id TEXT NOT NULL,
+            start_date TEXT NOT NULL,
+            end_date TEXT,
+            content_hash TEXT,
+            created_at TEXT DEFAULT (datetime('now')),
+            updated_at TEXT DEFAULT (datetime('now')),
+            FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE
+        )
+    `);
+    await turso.execute(`CREATE INDEX IF NOT EXISTS idx_spotlight_product_id ON spotlight(product_id)`);
+    await turso.execute(`CREATE INDEX IF NOT EXISTS idx_spotlight_dates ON spotlight(start_date, end_date)`);
+    console.log('✅ Ensured spotlight table');
+
+    try {
+        await turso.execute(`
+            ALTER TABLE spotlight ADD COLUMN content_hash TEXT
+        `);
+        console.log('✅ Added content_hash to spotlight');
+    } catch (err) {
+        console.log('ℹ️  content_hash already exists in spotlight (or check failed)');
+    }
+
+    // Old slugs of renamed studios/products, so the public site can 301 to the new one
+    await turso.execute(`
+        CREATE TABLE IF NOT EXISTS slug_redirects (
+            id TEXT PRIMARY KEY,
+            entity TEXT NOT NULL,
+            old_slug TEXT NOT NULL,
+            new_slug TEXT NOT NULL,
+            notion_id TEXT NOT NULL,
+            created_at TEXT NOT NULL,
+            UNIQUE (entity, old_slug)
+        )
+    `);
+    await turso.execute(`CREATE INDEX IF NOT EXISTS idx_slug_redirects_notion_id ON slug_redirects(notion_id)`);
+    console.log('✅ Ensured slug_redirects table');
+
+    // One row per product image sent to Vectorize; failed ones are retried
+    await turso.execute(`
+        CREATE TABLE IF NOT EXISTS product_embeddings (
+            id TEXT PRIMARY KEY,
+            image_id TEXT NOT NULL,
+            product_id TEXT NOT NULL,
+            vector_id TEXT NOT NULL,
+            embedding_text TEXT NOT NULL,
+            enrichment_version TEXT,
+            enrichment_source TEXT,
+            status TEXT NOT NULL DEFAULT 'indexed',
+            last_error TEXT,
+            created_at TEXT NOT NULL,
+            updated_at TEXT NOT NULL,
+            FOREIGN KEY (image_id) REFERENCES product_images(id) ON DELETE CASCADE,
+            FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE
+        )
+    `);
+    console.log('✅ Ensured product_embeddings table');
+
+    try {
+        await turso.execute(`
+            ALTER TABLE product_embeddings ADD COLUMN status TEXT NOT NULL DEFAULT 'indexed'
+        `);
+        console.log('✅ Added status to product_embeddings');
+    } catch (err) {
+        console.log('ℹ️  status already exists in product_embeddings (or check failed)');
+    }
+
+    try {
+        await turso.execute(`
+            ALTER TABLE product_embeddings ADD COLUMN last_error TEXT
+        `);
+        console.log('✅ Added last_error to product_embeddings');
+    } catch (err) {
+        console.log('ℹ️  last_error already exists in product_embeddings (or check failed)');
+    }
+    await turso.execute(`CREATE INDEX IF NOT EXISTS idx_product_embeddings_product_id ON product_embeddings(product_id)`);
+    await turso.execute(`CREATE INDEX IF NOT EXISTS idx_product_embeddings_status ON product_embeddings(status)`);
+
     // Add indexes for better performance
     try {
         await turso.execute(`
@@ -1,3 +1,4 @@
+import { generateSlug } from '@repo/shared-types';
 import { NotionService } from '../src/services/NotionService';
 import { StorageService } from '../src/services/StorageService';
 import fetch from 'node-fetch';
@@ -34,12 +35,6 @@ const targetSlugs = new Set([
 
 const MAX_SIZE = 100 * 1024; // 100kb
 
-function generateSlug(name: string): string {
-    return name.toLowerCase()
-        .replace(/[^a-z0-9]+/g, '-')
-        .replace(/(^-|-$)+/g, '');
-}
-
 async function run() {
     console.log('Fetching designers from Notion for STRICT compression...');
     const designers = await NotionService.getDesigners(true);
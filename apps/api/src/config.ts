@@ -25,6 +25,11 @@ if (missingVars.length > 0) {
     }
 }
 
+function envNumber(key: string, fallback: number): number {
+    const value = process.env[key];
+    return value !== undefined && value !== '' && !isNaN(Number(value)) ? Number(value) : fallback;
+}
+
 export const config = {
     port: process.env.PORT || 3001,
     notion: {
@@ -32,6 +37,18 @@ export const config = {
         designersDbId: process.env.NOTION_DATABASE_ID,
         moodboardDbId: process.env.NOTION_MOODBOARD_ID,
         spotlightDbId: process.env.NOTION_SPOTLIGHT_ID,
+        // JSON overrides of the default property mapping, e.g.
+        // { "designers": { "website": { "property": "Site", "type": "url" } } }
+        propertyMap: process.env.NOTION_PROPERTY_MAP || '{}',
+        // Attempts per request on 429s (honouring Retry-After) and transient failures
+        retryAttempts: Math.max(1, envNumber('NOTION_RETRY_ATTEMPTS', 5)),
+        // The page cache is refreshed incrementally; this often, the whole database is listed again.
+        // At most 30, as the cached pages' signed file URLs expire after an hour
+        cacheFullRefreshMinutes: envNumber('NOTION_CACHE_FULL_REFRESH_MINUTES', 30),
+        // JSON per content type: Notion properties that receive the migration status, e.g.
+        // { "moodboard": { "migratedAt": "Migrated at", "liveUrl": "Live URL", "lastError": "Migration error",
+        //   "needsResync": "Needs re-sync", "urlTemplate": "https://example.com/moodboard/{slug}" } }
+        writeBack: process.env.NOTION_WRITE_BACK || '{}',
     },
     turso: {
         url: process.env.TURSO_DATABASE_URL,
@@ -45,9 +62,52 @@ export const config = {
         bucketMoodboard: process.env.R2_BUCKET_NAME2,
         publicUrlIndex: process.env.R2_PUBLIC_URL,
         publicUrlMoodboard: process.env.R2_PUBLIC_URL2,
+        // Private bucket holding the previous version of objects a job overwrites, for rollback.
+        // Optional; without it no snapshots are kept and jobs can't be rolled back
+        snapshotBucket: process.env.R2_SNAPSHOT_BUCKET,
     },
     vectorize: {
         accountId: process.env.CF_ACCOUNT_ID,
         token: process.env.VECTORIZE_API_TOKEN,
+    },
+    migration: {
+        // What happens to items that were unpublished/archived in Notion:
+        // 'status' keeps the Turso row with the Notion status, 'delete' drops it
+        removedRows: process.env.MIGRATION_REMOVED_ROWS === 'delete' ? 'delete' : 'status',
+        // 'quarantine' moves R2 objects under quarantine/ in R2_SNAPSHOT_BUCKET, 'delete' removes
+        // them; without that bucket they are always deleted
+        removedObjects: process.env.MIGRATION_REMOVED_OBJECTS === 'delete' ? 'delete' : 'quarantine',
+        // Items processed in parallel per job, and images in parallel within one product
+        itemConcurrency: Math.max(1, envNumber('MIGRATION_ITEM_CONCURRENCY', 3)),
+        imageConcurrency: Math.max(1, envNumber('MIGRATION_IMAGE_CONCURRENCY', 2)),
+        // Snapshots of finished jobs older than this are pruned; their jobs can't be rolled back anymore
+        snapshotRetentionDays: Math.max(1, envNumber('SNAPSHOT_RETENTION_DAYS', 14)),
+        // Per-step retries for transient failures (exponential backoff with jitter)
+        retry: {
+            attempts: Math.max(1, envNumber('MIGRATION_RETRY_ATTEMPTS', 4)),
+            baseDelayMs: envNumber('MIGRATION_RETRY_BASE_DELAY_MS', 500),
+            maxDelayMs: envNumber('MIGRATION_RETRY_MAX_DELAY_MS', 15_000),
+        },
+    },
+    // Requests per second shared across all jobs; 0 disables the limit
+    rateLimits: {
+        notion: envNumber('RATE_LIMIT_NOTION', 3), // Notion's documented average
+        embeddings: envNumber('RATE_LIMIT_EMBEDDINGS', 10),
+        vectorize: envNumber('RATE_LIMIT_VECTORIZE', 10),
+        r2: envNumber('RATE_LIMIT_R2', 50),
+    },
+    jobs: {
+        // Local libsql file by default; any libsql URL works (e.g. a separate Turso DB)
+        dbUrl: process.env.JOBS_DATABASE_URL || `file:${path.resolve(__dirname, '../data/jobs.db')}`,
+        dbAuthToken: process.env.JOBS_DATABASE_AUTH_TOKEN,
+        // On boot, resume interrupted jobs from the next unprocessed item instead of failing them
+        resumeInterrupted: process.env.JOBS_RESUME_INTERRUPTED === 'true',
+    },
+    scheduler: {
+        // JSON array of { "cron": "0 3 * * *", "type": "moodboard", "mode": "incremental" },
+        // mode is one of full, incremental or embeddings-only (moodboard only)
+        schedules: process.env.MIGRATION_SCHEDULES || '[]',
+        // Scheduled runs returned by the history endpoint by default
+        historyLimit: envNumber('SCHEDULER_HISTORY_LIMIT', 50),
     }
 };
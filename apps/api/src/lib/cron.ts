@@ -0,0 +1,105 @@
+/**
+ * Minimal five-field cron expressions (minute hour day-of-month month day-of-week),
+ * evaluated in the server's local time. Supports `*`, lists, ranges and steps,
+ * e.g. `0 3 * * *` or `*\/15 8-18 * * 1-5`.
+ */
+export interface CronExpression {
+    source: string;
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    // Standard cron: when both day fields are restricted, either may match
+    dayOfMonthRestricted: boolean;
+    dayOfWeekRestricted: boolean;
+}
+
+const FIELDS = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12 },
+    { name: 'day of week', min: 0, max: 7 }, // 0 and 7 are both Sunday
+];
+
+// Longest gap between two matches we search for (a leap year of minutes)
+const MAX_SEARCH_MINUTES = 366 * 24 * 60;
+
+function parseField(part: string, field: typeof FIELDS[number], expr: string): Set<number> {
+    const values = new Set<number>();
+    const invalid = () => new Error(`Invalid ${field.name} "${part}" in cron expression "${expr}"`);
+
+    for (const item of part.split(',')) {
+        const [range, stepText] = item.split('/');
+        const step = stepText === undefined ? 1 : Number(stepText);
+        if (!Number.isInteger(step) || step < 1) throw invalid();
+
+        let from: number;
+        let to: number;
+        if (range === '*') {
+            from = field.min;
+            to = field.max;
+        } else if (range.includes('-')) {
+            [from, to] = range.split('-').map(Number);
+        } else {
+            from = Number(range);
+            // `5/10` means every 10 starting at 5
+            to = stepText === undefined ? from : field.max;
+        }
+
+        if (!Number.isInteger(from) || !Number.isInteger(to) || from < field.min || to > field.max || from > to) {
+            throw invalid();
+        }
+
+        for (let value = from; value <= to; value += step) values.add(value);
+    }
+
+    return values;
+}
+
+export function parseCron(expr: string): CronExpression {
+    const parts = expr.trim().split(/\s+/);
+    if (parts.length !== 5) {
+        throw new Error(`Cron expression "${expr}" must have 5 fields (minute hour day-of-month month day-of-week)`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i], expr));
+    if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+    return {
+        source: expr,
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        dayOfMonthRestricted: parts[2] !== '*',
+        dayOfWeekRestricted: parts[4] !== '*',
+    };
+}
+
+export function cronMatches(cron: CronExpression, date: Date): boolean {
+    if (!cron.minutes.has(date.getMinutes())) return false;
+    if (!cron.hours.has(date.getHours())) return false;
+    if (!cron.months.has(date.getMonth() + 1)) return false;
+
+    const dayOfMonth = cron.daysOfMonth.has(date.getDate());
+    const dayOfWeek = cron.daysOfWeek.has(date.getDay());
+    if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) return dayOfMonth || dayOfWeek;
+    return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * First matching minute strictly after `from`, or null if none within a year
+ */
+export function nextCronRun(cron: CronExpression, from: Date): Date | null {
+    const candidate = new Date(from);
+    candidate.setSeconds(0, 0);
+
+    for (let i = 0; i < MAX_SEARCH_MINUTES; i++) {
+        candidate.setMinutes(candidate.getMinutes() + 1);
+        if (cronMatches(cron, candidate)) return candidate;
+    }
+    return null;
+}
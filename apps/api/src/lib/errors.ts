@@ -0,0 +1,72 @@
+import { MigrationStepName } from '@repo/shared-types';
+
+export type ErrorKind = 'transient' | 'auth' | 'validation' | 'not-found';
+
+export type MigrationStep = MigrationStepName;
+
+/**
+ * Non-2xx response from an upstream HTTP API, keeping the status for classification
+ */
+export class HttpError extends Error {
+    constructor(message: string, public status: number) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+/**
+ * Failure of a single migration step after retries were exhausted (or skipped)
+ */
+export class StepError extends Error {
+    constructor(
+        public step: MigrationStep,
+        public kind: ErrorKind,
+        public attempts: number,
+        public cause: any
+    ) {
+        super(cause?.message || String(cause));
+        this.name = 'StepError';
+    }
+}
+
+const TRANSIENT_CODES = ['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EPIPE', 'EAI_AGAIN', 'ENOTFOUND', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+
+function statusOf(err: any): number | undefined {
+    return err?.status ?? err?.statusCode ?? err?.$metadata?.httpStatusCode ?? err?.response?.status;
+}
+
+/**
+ * Notion file URLs are pre-signed S3 URLs valid for about an hour
+ */
+export function isExpiredSignedUrl(err: any): boolean {
+    return statusOf(err) === 403 && /expired/i.test(err?.message || '');
+}
+
+export function classifyError(err: any): ErrorKind {
+    if (err instanceof StepError) return err.kind;
+
+    const status = statusOf(err);
+    const code = err?.code || err?.cause?.code;
+    const message = err?.message || '';
+
+    // Expired signed URLs are fixed by fetching a fresh one, not by the operator
+    if (isExpiredSignedUrl(err)) return 'transient';
+
+    if (status !== undefined) {
+        if (status === 401 || status === 403) return 'auth';
+        if (status === 404 || status === 410) return 'not-found';
+        if (status === 408 || status === 429 || status >= 500) return 'transient';
+        if (status >= 400) return 'validation';
+    }
+
+    if (TRANSIENT_CODES.includes(code)) return 'transient';
+    if (err?.name === 'AbortError' || err?.name === 'TimeoutError') return 'transient';
+    if (err?.name === 'NotFound' || err?.name === 'NoSuchKey') return 'not-found';
+
+    if (/timed? ?out|socket hang up|fetch failed|network|ECONNRESET|temporarily unavailable/i.test(message)) return 'transient';
+    if (/unauthori[sz]ed|forbidden|invalid (api )?token|access denied/i.test(message)) return 'auth';
+    if (/not found/i.test(message)) return 'not-found';
+
+    // Bad input, constraint violations, unsupported image formats...
+    return 'validation';
+}
@@ -0,0 +1,77 @@
+import { stripQuery } from './utils';
+
+export interface PlannedImage {
+    index: number;
+    id: string;
+    r2Key: string;
+    /** Set when the image is already stored under another position or slug */
+    movedFrom?: { position: number; r2Key: string; sourceHash: string | null };
+}
+
+export interface ImageSetPlan {
+    images: PlannedImage[];
+    /** Existing images that are no longer part of the product */
+    stale: { rowIds: string[]; r2Keys: string[]; vectorIds: string[] };
+}
+
+export function productImageId(productId: string, index: number) {
+    return `${productId}_${index}`;
+}
+
+export function productImageKey(slug: string, index: number) {
+    return `moodboard/${slug}/${index}.webp`;
+}
+
+/**
+ * Reconcile a product's Notion images with its `product_images` rows. Images
+ * are matched by their Notion file path, so one that only changed position (or
+ * whose product was renamed) can be copied instead of re-encoded. Rows, objects
+ * and vectors not claimed by the new set are stale.
+ */
+export function planImageSet(
+    productId: string,
+    slug: string,
+    images: Array<{ url: string }>,
+    imageRows: Array<Record<string, any>>
+): ImageSetPlan {
+    const rowsBySource = new Map<string, Array<Record<string, any>>>();
+    for (const row of imageRows) {
+        const source = stripQuery(row.original_notion_url);
+        if (!source) continue;
+        if (!rowsBySource.has(source)) rowsBySource.set(source, []);
+        rowsBySource.get(source)!.push(row);
+    }
+
+    const planned = images.map((img, index): PlannedImage => {
+        const id = productImageId(productId, index);
+        const r2Key = productImageKey(slug, index);
+
+        const source = stripQuery(img.url);
+        const candidates = (source && rowsBySource.get(source)) || [];
+        // Prefer the row already at this position, e.g. when a duplicate image moved
+        const match = candidates.find(row => row.r2_key === r2Key) ?? candidates[0];
+        if (!match) return { index, id, r2Key };
+
+        candidates.splice(candidates.indexOf(match), 1);
+        return match.r2_key === r2Key
+            ? { index, id, r2Key }
+            : {
+                index, id, r2Key,
+                movedFrom: { position: Number(match.position), r2Key: match.r2_key, sourceHash: match.source_hash ?? null }
+            };
+    });
+
+    const ids = new Set(planned.map(img => img.id));
+    const keys = new Set(planned.map(img => img.r2Key));
+    const staleRows = imageRows.filter(row => !ids.has(row.id));
+
+    return {
+        images: planned,
+        stale: {
+            rowIds: staleRows.map(row => row.id),
+            r2Keys: imageRows.map(row => row.r2_key).filter(key => key && !keys.has(key)),
+            // Vectors share the image row's id
+            vectorIds: staleRows.map(row => row.id),
+        }
+    };
+}
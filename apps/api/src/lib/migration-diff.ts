@@ -0,0 +1,103 @@
+import { Designer, MoodboardProduct, Spotlight } from '@repo/shared-types';
+import { stripQuery } from './utils';
+
+export interface FieldChange {
+    field: string;
+    from: any;
+    to: any;
+}
+
+function compareFields(changes: FieldChange[], pairs: Array<[string, any, any]>) {
+    for (const [field, from, to] of pairs) {
+        // Treat null/undefined/'' as the same "empty" value
+        if ((from ?? '') !== (to ?? '')) {
+            changes.push({ field, from: from ?? null, to: to ?? null });
+        }
+    }
+}
+
+/**
+ * Field-level differences between a Notion designer and its `studios` row
+ */
+export function diffDesigner(designer: Designer, row: Record<string, any>, slug: string): FieldChange[] {
+    const changes: FieldChange[] = [];
+
+    compareFields(changes, [
+        ['name', row.name, designer.name],
+        ['slug', row.slug, slug],
+        ['city', row.city, designer.city],
+        ['website', row.website, designer.website],
+        ['instagram', row.instagram, designer.instagram],
+        ['email', row.email, designer.email],
+    ]);
+
+    if (!row.cover && designer.coverUrl) {
+        changes.push({ field: 'cover', from: null, to: designer.coverUrl });
+    } else if (row.cover && !designer.coverUrl) {
+        changes.push({ field: 'cover', from: row.cover, to: null });
+    }
+
+    return changes;
+}
+
+/**
+ * Field-level differences between a Notion product and its `products` + `product_images` rows
+ */
+export function diffProduct(
+    product: MoodboardProduct,
+    row: Record<string, any>,
+    imageRows: Array<Record<string, any>>,
+    slug: string
+): FieldChange[] {
+    const changes: FieldChange[] = [];
+
+    compareFields(changes, [
+        ['name', row.name, product.name],
+        ['slug', row.slug, slug],
+        ['designer', row.designer, product.designer],
+        ['year', row.year, product.year],
+        ['link', row.link, product.link],
+        ['city', row.city, product.city],
+    ]);
+
+    if (imageRows.length !== product.images.length) {
+        changes.push({ field: 'images.length', from: imageRows.length, to: product.images.length });
+    }
+
+    product.images.forEach((img, i) => {
+        const stored = stripQuery(imageRows[i]?.original_notion_url);
+        const current = stripQuery(img.url);
+        if (stored && stored !== current) {
+            changes.push({ field: `images[${i}]`, from: stored, to: current });
+        }
+    });
+
+    return changes;
+}
+
+/**
+ * Field-level differences between a Notion spotlight entry and its `spotlight` row
+ */
+export function diffSpotlight(entry: Spotlight, row: Record<string, any>): FieldChange[] {
+    const changes: FieldChange[] = [];
+
+    compareFields(changes, [
+        ['product_id', row.product_id, entry.productIds[0]],
+        ['start_date', row.start_date, entry.startDate],
+        ['end_date', row.end_date, entry.endDate],
+    ]);
+
+    return changes;
+}
+
+/**
+ * The changes a job of this scope would apply: image fields (the cover and
+ * `images*`) for images-only jobs, the rest for metadata-only ones
+ */
+export function changesInScope(changes: FieldChange[], scope: string): FieldChange[] {
+    const isImageField = (change: FieldChange) => change.field === 'cover' || change.field.startsWith('images');
+    if (scope === 'metadata-only') return changes.filter(change => !isImageField(change));
+    if (scope === 'images-only') return changes.filter(isImageField);
+    if (scope === 'embeddings-only') return [];
+    return changes;
+}
@@ -0,0 +1,309 @@
+export type NotionPropertyType =
+    'title' | 'rich_text' | 'select' | 'multi_select' | 'status' | 'url' | 'email' |
+    'phone_number' | 'number' | 'checkbox' | 'date' | 'files' | 'relation';
+
+const PROPERTY_TYPES: NotionPropertyType[] = [
+    'title', 'rich_text', 'select', 'multi_select', 'status', 'url', 'email',
+    'phone_number', 'number', 'checkbox', 'date', 'files', 'relation'
+];
+
+const TRANSFORMS: Record<string, (value: any) => any> = {
+    // First entry of a files, relation or multi_select value
+    first: value => (Array.isArray(value) ? value[0] : value),
+    // Either end of a date range
+    start: value => value?.start ?? null,
+    end: value => value?.end ?? null,
+    trim: value => (typeof value === 'string' ? value.trim() || undefined : value),
+};
+
+export interface NotionFieldSpec {
+    // Notion property name, or names to try in order; omitted for a database's title
+    property?: string | string[];
+    // Accepted property type(s); the value is read according to the page's actual type
+    type: NotionPropertyType | NotionPropertyType[];
+    // A missing optional property is only warned about and reads as undefined
+    optional?: boolean;
+    // One of TRANSFORMS, applied to the read value
+    transform?: string;
+}
+
+// Target field -> where it comes from in Notion
+export type NotionMapping = Record<string, NotionFieldSpec>;
+
+export const DEFAULT_NOTION_MAPPINGS = {
+    designers: {
+        name: { property: 'Name', type: 'title' },
+        city: { property: 'City', type: 'select', optional: true },
+        coverUrl: { property: 'Cover', type: 'files', transform: 'first' },
+        website: { property: 'Website URL', type: 'url', optional: true },
+        instagram: { property: 'IG', type: 'url', optional: true },
+        email: { property: 'Email', type: 'email', optional: true },
+        notionStatus: { property: 'Status', type: 'status' },
+    },
+    moodboard: {
+        name: { property: 'Name', type: 'title' },
+        designer: { property: 'Designer', type: 'select', optional: true },
+        year: { property: 'Year', type: 'select', optional: true },
+        city: { property: 'City', type: ['select', 'rich_text'], optional: true },
+        link: { property: 'Link', type: 'url', optional: true },
+        notionStatus: { property: 'Status', type: 'select' },
+        images: { property: ['Image', 'Cover'], type: 'files' },
+    },
+    spotlight: {
+        // Spotlight databases name their title differently
+        name: { type: 'title' },
+        productIds: { property: '🍋 Moodboard', type: 'relation' },
+        startDate: { property: 'Date', type: 'date', optional: true, transform: 'start' },
+        endDate: { property: 'Date', type: 'date', optional: true, transform: 'end' },
+        // Entries without a Status property are live
+        notionStatus: { property: 'Status', type: ['status', 'select'], optional: true },
+    },
+} satisfies Record<string, NotionMapping>;
+
+export type NotionContentType = keyof typeof DEFAULT_NOTION_MAPPINGS;
+export type NotionMappings = Record<NotionContentType, NotionMapping>;
+
+/**
+ * Property a field resolved to in a database, or null for a missing optional one
+ */
+export type ResolvedField = { property: string; type: NotionPropertyType } | null;
+
+function asList<T>(value: T | T[] | undefined): T[] {
+    if (value === undefined) return [];
+    return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Defaults with the overrides from NOTION_PROPERTY_MAP applied, e.g.
+ * `{ "designers": { "website": { "property": "Site" } } }`. Overrides are
+ * merged into the default spec of each field; new fields can't be added.
+ */
+export function parseNotionMappings(raw: string): NotionMappings {
+    let overrides: any;
+    try {
+        overrides = JSON.parse(raw);
+    } catch (err: any) {
+        throw new Error(`NOTION_PROPERTY_MAP is not valid JSON: ${err.message}`);
+    }
+    if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+        throw new Error('NOTION_PROPERTY_MAP must be a JSON object keyed by content type');
+    }
+
+    const mappings = structuredClone(DEFAULT_NOTION_MAPPINGS) as NotionMappings;
+    for (const [contentType, fields] of Object.entries<any>(overrides)) {
+        const mapping = mappings[contentType as NotionContentType];
+        if (!mapping) {
+            throw new Error(`NOTION_PROPERTY_MAP: unknown content type "${contentType}", expected one of ${Object.keys(mappings).join(', ')}`);
+        }
+        for (const [field, override] of Object.entries<any>(fields || {})) {
+            const where = `NOTION_PROPERTY_MAP ${contentType}.${field}`;
+            if (!mapping[field]) {
+                throw new Error(`${where}: unknown field, expected one of ${Object.keys(mapping).join(', ')}`);
+            }
+            if (!override || typeof override !== 'object') throw new Error(`${where}: must be an object`);
+
+            const spec: NotionFieldSpec = { ...mapping[field], ...override };
+            const names = asList(spec.property);
+            if (names.length === 0 && !asList(spec.type).includes('title')) {
+                throw new Error(`${where}: property is required`);
+            }
+            if (names.some(name => typeof name !== 'string' || name === '')) {
+                throw new Error(`${where}: property must be a non-empty string or array of strings`);
+            }
+            const invalidType = asList(spec.type).find(type => !PROPERTY_TYPES.includes(type));
+            if (asList(spec.type).length === 0 || invalidType !== undefined) {
+                throw new Error(`${where}: type must be one of ${PROPERTY_TYPES.join(', ')}`);
+            }
+            if (spec.transform !== undefined && !TRANSFORMS[spec.transform]) {
+                throw new Error(`${where}: transform must be one of ${Object.keys(TRANSFORMS).join(', ')}`);
+            }
+            mapping[field] = spec;
+        }
+    }
+    return mappings;
+}
+
+/**
+ * Check a mapping against a database's properties (as returned by
+ * `databases.retrieve`), resolving each field to the property it reads
+ */
+export function checkNotionMapping(mapping: NotionMapping, properties: Record<string, any>) {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const resolved: Record<string, ResolvedField> = {};
+
+    for (const [field, spec] of Object.entries(mapping)) {
+        const types = asList(spec.type);
+        const names = asList(spec.property);
+        const name = names.length > 0
+            ? names.find(candidate => properties[candidate])
+            : Object.keys(properties).find(candidate => properties[candidate]?.type === 'title');
+
+        if (name === undefined) {
+            const message = `${field}: property ${names.map(n => `"${n}"`).join(' or ') || 'of type title'} not found`;
+            if (spec.optional) warnings.push(message);
+            else errors.push(message);
+            resolved[field] = null;
+            continue;
+        }
+
+        const actual = properties[name].type;
+        if (!types.includes(actual)) {
+            errors.push(`${field}: property "${name}" is ${actual}, expected ${types.join(' or ')}`);
+            resolved[field] = null;
+            continue;
+        }
+        resolved[field] = { property: name, type: actual };
+    }
+
+    return { errors, warnings, resolved };
+}
+
+/**
+ * What a field is read from before the databases were checked: its first
+ * listed property and type
+ */
+export function defaultResolution(spec: NotionFieldSpec): ResolvedField {
+    const property = asList(spec.property)[0];
+    return property === undefined ? null : { property, type: asList(spec.type)[0] };
+}
+
+function readValue(prop: any): any {
+    const value = prop[prop.type];
+    switch (prop.type) {
+        case 'title':
+        case 'rich_text':
+            return value?.map((text: any) => text.plain_text).join('') || undefined;
+        case 'select':
+        case 'status':
+            return value?.name;
+        case 'multi_select':
+            return (value || []).map((option: any) => option.name);
+        case 'files':
+            return (value || []).map((file: any) => file.file?.url || file.external?.url);
+        case 'relation':
+            return (value || []).map((rel: any) => rel.id);
+        case 'date':
+            return value ? { start: value.start ?? null, end: value.end ?? null } : undefined;
+        default:
+            return value ?? undefined;
+    }
+}
+
+/**
+ * Value of a mapped field on a page; undefined when the property is missing
+ * or isn't one of the field's accepted types
+ */
+export function readNotionField(properties: Record<string, any>, spec: NotionFieldSpec): any {
+    const names = asList(spec.property);
+    const prop = names.length > 0
+        ? names.map(name => properties[name]).find(Boolean)
+        : Object.values<any>(properties).find(candidate => candidate?.type === 'title');
+
+    if (!prop || !asList(spec.type).includes(prop.type)) return undefined;
+    const value = readValue(prop);
+    return spec.transform ? TRANSFORMS[spec.transform](value) : value;
+}
+
+// Migration status fields that can be written back to Notion, and the property types they accept
+const WRITE_BACK_TYPES: Record<string, NotionPropertyType[]> = {
+    migratedAt: ['date'],
+    liveUrl: ['url', 'rich_text'],
+    lastError: ['rich_text'],
+    needsResync: ['checkbox'],
+};
+
+export interface WriteBackConfig {
+    // Status field -> Notion property it is written to
+    mapping: NotionMapping;
+    // Live URL of an item, e.g. "https://example.com/moodboard/{slug}"; without it the slug is written
+    urlTemplate?: string;
+}
+
+/**
+ * Values to write to a page; undefined fields are left alone, null clears them
+ */
+export interface WriteBackValues {
+    migratedAt?: string | null;
+    liveUrl?: string | null;
+    lastError?: string | null;
+    needsResync?: boolean;
+}
+
+/**
+ * Content types with write-back enabled, from NOTION_WRITE_BACK, e.g.
+ * `{ "moodboard": { "migratedAt": "Migrated at", "liveUrl": "Live URL",
+ * "urlTemplate": "https://example.com/moodboard/{slug}" } }`. Only the
+ * listed fields are written; `"enabled": false` turns a type off.
+ */
+export function parseWriteBack(raw: string): Partial<Record<NotionContentType, WriteBackConfig>> {
+    let entries: any;
+    try {
+        entries = JSON.parse(raw);
+    } catch (err: any) {
+        throw new Error(`NOTION_WRITE_BACK is not valid JSON: ${err.message}`);
+    }
+    if (!entries || typeof entries !== 'object' || Array.isArray(entries)) {
+        throw new Error('NOTION_WRITE_BACK must be a JSON object keyed by content type');
+    }
+
+    const configs: Partial<Record<NotionContentType, WriteBackConfig>> = {};
+    for (const [contentType, entry] of Object.entries<any>(entries)) {
+        const where = `NOTION_WRITE_BACK ${contentType}`;
+        if (!(contentType in DEFAULT_NOTION_MAPPINGS)) {
+            throw new Error(`${where}: unknown content type, expected one of ${Object.keys(DEFAULT_NOTION_MAPPINGS).join(', ')}`);
+        }
+        if (!entry || typeof entry !== 'object') throw new Error(`${where}: must be an object`);
+
+        const { enabled = true, urlTemplate, ...fields } = entry;
+        if (enabled === false) continue;
+        if (urlTemplate !== undefined && (typeof urlTemplate !== 'string' || !urlTemplate.includes('{slug}'))) {
+            throw new Error(`${where}: urlTemplate must be a string containing {slug}`);
+        }
+
+        const mapping: NotionMapping = {};
+        for (const [field, property] of Object.entries(fields)) {
+            if (!WRITE_BACK_TYPES[field]) {
+                throw new Error(`${where}.${field}: unknown field, expected one of ${Object.keys(WRITE_BACK_TYPES).join(', ')}`);
+            }
+            if (typeof property !== 'string' || property === '') {
+                throw new Error(`${where}.${field}: must be a Notion property name`);
+            }
+            if (field === 'liveUrl' && contentType === 'spotlight') {
+                throw new Error(`${where}.liveUrl: spotlight entries have no page of their own`);
+            }
+            mapping[field] = { property, type: WRITE_BACK_TYPES[field] };
+        }
+        if (Object.keys(mapping).length === 0) throw new Error(`${where}: no properties to write`);
+
+        configs[contentType as NotionContentType] = { mapping, urlTemplate };
+    }
+    return configs;
+}
+
+function writeValue(type: NotionPropertyType, value: string | boolean | null): any {
+    switch (type) {
+        case 'date':
+            return { date: value ? { start: value } : null };
+        case 'url':
+            return { url: value || null };
+        case 'checkbox':
+            return { checkbox: value === true };
+        default:
+            // Notion caps each rich text segment at 2000 characters
+            return { rich_text: value ? [{ text: { content: String(value).slice(0, 2000) } }] : [] };
+    }
+}
+
+/**
+ * `pages.update` properties for the values, using the property each field resolved to
+ */
+export function buildWriteBackProperties(values: WriteBackValues, resolved: Record<string, ResolvedField>) {
+    const properties: Record<string, any> = {};
+    for (const [field, value] of Object.entries(values)) {
+        const target = resolved[field];
+        if (value === undefined || !target) continue;
+        properties[target.property] = writeValue(target.type, value);
+    }
+    return properties;
+}
@@ -0,0 +1,50 @@
+import { config } from '../config';
+import { classifyError, ErrorKind, MigrationStep, StepError } from './errors';
+
+export interface RetryOptions {
+    attempts?: number;
+    /** Defaults to retrying transient errors only */
+    isRetryable?: (err: any, kind: ErrorKind) => boolean;
+    /** Called before each retry, e.g. to refresh an expired URL */
+    beforeRetry?: (err: any, attempt: number) => Promise<void>;
+    /** Notified of each failed attempt that will be retried */
+    onRetry?: (err: any, kind: ErrorKind, attempt: number, delayMs: number) => void;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run one migration step, retrying retryable failures with exponential backoff
+ * and full jitter. Throws a StepError carrying the step, kind and attempt count.
+ */
+export async function withRetry<T>(
+    step: MigrationStep,
+    fn: (attempt: number) => Promise<T>,
+    options: RetryOptions = {}
+): Promise<T> {
+    const attempts = options.attempts ?? config.migration.retry.attempts;
+    const isRetryable = options.isRetryable ?? ((_err, kind) => kind === 'transient');
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await fn(attempt);
+        } catch (err: any) {
+            const kind = classifyError(err);
+
+            if (attempt >= attempts || !isRetryable(err, kind)) {
+                throw new StepError(step, kind, attempt, err);
+            }
+
+            const backoff = Math.min(
+                config.migration.retry.maxDelayMs,
+                config.migration.retry.baseDelayMs * 2 ** (attempt - 1)
+            );
+            const delay = Math.round(Math.random() * backoff);
+            console.warn(`[${step}] attempt ${attempt} failed (${kind}): ${err.message}. Retrying in ${delay}ms`);
+            options.onRetry?.(err, kind, attempt, delay);
+
+            await sleep(delay);
+            if (options.beforeRetry) await options.beforeRetry(err, attempt);
+        }
+    }
+}
@@ -2,9 +2,25 @@
 const OLLAMA_BASE_URL = 'http://localhost:11434';
 const OLLAMA_MODEL = 'qwen2.5:7b-instruct';
 
+// Stored with every enrichment; bump when the prompt or fallback changes so
+// regeneration jobs pick up rows enriched by the old one
+export const ENRICHMENT_VERSION = '1.0';
+
 const scrapeCache = new Map<string, string | null>();
 const enrichmentCache = new Map<string, any>();
 
+function enrichmentCacheKey(productData: any) {
+    return `${productData.name || ''}-${productData.designer || ''}-${productData.link || ''}`;
+}
+
+/**
+ * Drop the cached scrape and enrichment of a product, so the next call regenerates them
+ */
+export function forgetEnrichment(productData: any) {
+    if (productData.link) scrapeCache.delete(productData.link);
+    enrichmentCache.delete(enrichmentCacheKey(productData));
+}
+
 export async function scrapeSource(url: string | null): Promise<string | null> {
     if (!url) return null;
     if (scrapeCache.has(url)) return scrapeCache.get(url)!;
@@ -91,7 +107,7 @@ function isNavigationText(text: string) {
 }
 
 export async function enrichSemantics(scrapedText: string | null, productData: any = {}) {
-    const cacheKey = `${productData.name || ''}-${productData.designer || ''}-${productData.link || ''}`;
+    const cacheKey = enrichmentCacheKey(productData);
     if (enrichmentCache.has(cacheKey)) return enrichmentCache.get(cacheKey);
 
     const inputParts = [];
@@ -132,7 +148,7 @@ ${inputText}`;
         const enriched = {
             ...result,
             enrichment_source: 'ai',
-            enrichment_version: '1.0',
+            enrichment_version: ENRICHMENT_VERSION,
         };
         enrichmentCache.set(cacheKey, enriched);
         return enriched;
@@ -251,7 +267,7 @@ export function generateFallbackEnrichment(productData: any) {
         keywords: [...new Set(keywords)].slice(0, 6),
         description: description,
         enrichment_source: 'fallback',
-        enrichment_version: '1.0',
+        enrichment_version: ENRICHMENT_VERSION,
     };
 }
 
@@ -1,6 +1,7 @@
 import sharp from 'sharp';
 import { analyzeImage, ImageAnalysis } from './image-analysis';
 import { compareSSIM } from './perceptual-compare';
+import { HttpError } from './errors';
 
 interface ConversionStrategy {
     type: 'skip' | 'lossless' | 'adaptive' | 'careful' | 'fallback';
@@ -161,15 +162,22 @@ async function generateDiffMap(
     return diff;
 }
 
+export async function downloadImage(imageUrl: string): Promise<Buffer> {
+    const response = await fetch(imageUrl);
+    if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        throw new HttpError(`Image download failed: ${response.status} ${response.statusText} ${body.substring(0, 200)}`.trim(), response.status);
+    }
+    return Buffer.from(await response.arrayBuffer());
+}
+
 export async function smartWebP(
-    imageUrl: string,
+    source: string | Buffer,
     forceConvert = false
 ): Promise<ConversionResult & { diffMap: Buffer }> {
 
-    // Download original
-    const response = await fetch(imageUrl);
-    const arrayBuffer = await response.arrayBuffer();
-    const originalBuffer = Buffer.from(arrayBuffer);
+    // Download original unless the caller already has the bytes
+    const originalBuffer = typeof source === 'string' ? await downloadImage(source) : source;
 
     // Analyze
     const analysis = await analyzeImage(originalBuffer);
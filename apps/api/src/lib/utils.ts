@@ -4,28 +4,53 @@ export function generateId(): string {
     return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
 }
 
+/**
+ * Notion file URLs are pre-signed and change on every fetch; only the path identifies the file
+ */
+export function stripQuery(url: string | null | undefined): string | null {
+    if (!url) return null;
+    return url.split('?')[0];
+}
+
 /**
  * Generate a deterministic hash of content for change detection
  * Used to detect if Notion content changed since last migration
  */
 export function generateContentHash(item: any): string {
-    // Create deterministic string from content
+    // Create deterministic string from content (file URLs without their signature)
     const content = JSON.stringify({
         name: item.name,
         city: item.city,
-        coverUrl: item.coverUrl,
+        coverUrl: stripQuery(item.coverUrl) ?? undefined,
         website: item.website,
         instagram: item.instagram,
         email: item.email,
         designer: item.designer,
         year: item.year,
         link: item.link,
-        images: item.images?.map((img: any) => img.url),
+        images: item.images?.map((img: any) => stripQuery(img.url)),
+        productIds: item.productIds,
+        startDate: item.startDate,
+        endDate: item.endDate,
     });
 
     return crypto.createHash('md5').update(content).digest('hex');
 }
 
+/**
+ * Hash of an image's source bytes, to tell whether it needs re-optimising
+ */
+export function generateSourceHash(buffer: Buffer): string {
+    return crypto.createHash('md5').update(buffer).digest('hex');
+}
+
+/**
+ * Hash of a request body, to tell a replayed request from a different one
+ */
+export function generateRequestHash(body: unknown): string {
+    return crypto.createHash('md5').update(JSON.stringify(body)).digest('hex');
+}
+
 /**
  * Format bytes to human readable string
  */
@@ -34,3 +59,33 @@ export function formatBytes(bytes: number): string {
     if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
     return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
 }
+
+/**
+ * Map over items running at most `limit` calls at a time; results keep input order.
+ * The first rejection stops new calls from starting and is rethrown once the
+ * calls already in flight have settled, so callers can clean up safely.
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+    const errors: unknown[] = [];
+
+    const worker = async () => {
+        while (errors.length === 0 && next < items.length) {
+            const index = next++;
+            try {
+                results[index] = await fn(items[index], index);
+            } catch (err) {
+                errors.push(err);
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    if (errors.length > 0) throw errors[0];
+    return results;
+}
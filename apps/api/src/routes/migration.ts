@@ -1,29 +1,263 @@
 import { Router } from 'express';
 import { MigrationService } from '../services/MigrationService';
+import { JobEvents, JobEvent } from '../services/JobEvents';
+import { JobStore, JOB_TYPES, JOB_STATUSES, JOB_SCOPES, LOCK_POLICIES, JobType, JobStatus } from '../services/JobStore';
+import { SchedulerService } from '../services/SchedulerService';
+import { ProductEmbeddingService } from '../services/ProductEmbeddingService';
 
 const router = Router();
 
+// Job history page size
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Why `scope` can't be used for a job of `type`, if it can't
+ */
+function scopeError(type: JobType, scope: any): string | null {
+    if (scope === undefined) return null;
+    if (!JOB_SCOPES.includes(scope)) return `Invalid scope. Must be one of: ${JOB_SCOPES.join(', ')}`;
+    if ((scope === 'embeddings-only' || scope === 'enrichment-only') && type !== 'moodboard') {
+        return `${scope} is only available for moodboard`;
+    }
+    if (scope === 'images-only' && type === 'spotlight') return 'Spotlight entries have no images';
+    return null;
+}
+
 router.post('/dry-run', async (req, res, next) => {
     try {
+        if (!JOB_TYPES.includes(req.body?.type)) {
+            return res.status(400).json({ error: `Invalid type. Must be one of: ${JOB_TYPES.join(', ')}` });
+        }
+        const invalidScope = scopeError(req.body.type, req.body.scope);
+        if (invalidScope) {
+            return res.status(400).json({ error: invalidScope });
+        }
         const result = await MigrationService.dryRun(req.body);
         res.json(result);
     } catch (err) { next(err); }
 });
 
+/**
+ * Start a migration job. Send an `Idempotency-Key` header (or `idempotencyKey`)
+ * to get the same job back when the request is repeated.
+ */
 router.post('/execute', async (req, res, next) => {
     try {
-        const result = await MigrationService.execute(req.body);
+        if (!JOB_TYPES.includes(req.body?.type)) {
+            return res.status(400).json({ error: `Invalid type. Must be one of: ${JOB_TYPES.join(', ')}` });
+        }
+        const invalidScope = scopeError(req.body.type, req.body.scope);
+        if (invalidScope) {
+            return res.status(400).json({ error: invalidScope });
+        }
+        if (req.body.onLocked !== undefined && !LOCK_POLICIES.includes(req.body.onLocked)) {
+            return res.status(400).json({ error: `Invalid onLocked. Must be one of: ${LOCK_POLICIES.join(', ')}` });
+        }
+        const idempotencyKey = req.get('Idempotency-Key') ?? req.body.idempotencyKey;
+        if (idempotencyKey !== undefined && (typeof idempotencyKey !== 'string' || !idempotencyKey.trim())) {
+            return res.status(400).json({ error: 'Idempotency key must be a non-empty string' });
+        }
+        const result = await MigrationService.execute({ ...req.body, idempotencyKey });
+        res.json(result);
+    } catch (err) { next(err); }
+});
+
+/**
+ * Incremental sync: enqueue everything changed in Notion since the last
+ * successful sync of `type`. With `dryRun`, only lists what would be enqueued.
+ */
+router.post('/sync', async (req, res, next) => {
+    try {
+        if (!JOB_TYPES.includes(req.body?.type)) {
+            return res.status(400).json({ error: `Invalid type. Must be one of: ${JOB_TYPES.join(', ')}` });
+        }
+        const result = await MigrationService.sync(req.body);
         res.json(result);
     } catch (err) { next(err); }
 });
 
+router.get('/sync', async (req, res, next) => {
+    try {
+        const result = await MigrationService.getSyncState();
+        res.json(result);
+    } catch (err) { next(err); }
+});
+
+/**
+ * Which product images are searchable: embedding counts by status and the failed ones
+ */
+router.get('/embeddings', async (req, res, next) => {
+    try {
+        const result = await ProductEmbeddingService.getSummary();
+        res.json(result);
+    } catch (err) { next(err); }
+});
+
+/**
+ * Re-enrich every live product and rebuild its embedding text, then re-embed.
+ * `force` includes products already enriched by the current version;
+ * with `dryRun`, only previews what would change.
+ */
+router.post('/embeddings/regenerate', async (req, res, next) => {
+    try {
+        const result = await MigrationService.regenerateEmbeddings({
+            force: req.body?.force === true,
+            dryRun: req.body?.dryRun === true
+        });
+        res.json(result);
+    } catch (err) { next(err); }
+});
+
+/**
+ * Re-embed the products that have a failed embedding
+ */
+router.post('/embeddings/retry', async (req, res, next) => {
+    try {
+        const result = await MigrationService.refreshEmbeddings({ failedOnly: true });
+        res.json(result);
+    } catch (err) { next(err); }
+});
+
+/**
+ * Restore what a finished job overwrote or removed, from the snapshots it took
+ */
+router.post('/rollback/:jobId', async (req, res, next) => {
+    try {
+        const result = await MigrationService.rollback(req.params.jobId);
+        if (!result) {
+            return res.status(404).json({ error: 'Job not found' });
+        }
+        res.json(result);
+    } catch (err) { next(err); }
+});
+
+router.get('/schedules', (req, res) => {
+    res.json({ schedules: SchedulerService.list() });
+});
+
+/**
+ * Scheduled runs, newest first, including skipped ones and their reason
+ */
+router.get('/schedules/history', async (req, res, next) => {
+    try {
+        const runs = await SchedulerService.history({
+            scheduleId: req.query.scheduleId as string | undefined,
+            limit: req.query.limit ? Number(req.query.limit) : undefined
+        });
+        res.json({ runs });
+    } catch (err) { next(err); }
+});
+
+router.post('/schedules/:scheduleId/run', async (req, res, next) => {
+    try {
+        const run = await SchedulerService.runNow(req.params.scheduleId);
+        if (!run) {
+            return res.status(404).json({ error: 'Schedule not found' });
+        }
+        res.json(run);
+    } catch (err) { next(err); }
+});
+
+/**
+ * Job history, newest first. Filters: type, status, from/to (start time), itemId;
+ * paginated with limit and offset.
+ */
+router.get('/jobs', async (req, res, next) => {
+    try {
+        const { type, status, from, to, itemId } = req.query as Record<string, string | undefined>;
+        if (type && !JOB_TYPES.includes(type as JobType)) {
+            return res.status(400).json({ error: `Invalid type. Must be one of: ${JOB_TYPES.join(', ')}` });
+        }
+        if (status && !JOB_STATUSES.includes(status as JobStatus)) {
+            return res.status(400).json({ error: `Invalid status. Must be one of: ${JOB_STATUSES.join(', ')}` });
+        }
+        for (const [name, value] of Object.entries({ from, to })) {
+            if (value && Number.isNaN(Date.parse(value))) {
+                return res.status(400).json({ error: `Invalid ${name}. Must be an ISO date` });
+            }
+        }
+
+        const limit = Math.min(Math.max(Number(req.query.limit) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+        const offset = Math.max(Number(req.query.offset) || 0, 0);
+
+        const result = await JobStore.list({
+            type: type as JobType | undefined,
+            status: status as JobStatus | undefined,
+            from: from && new Date(from).toISOString(),
+            to: to && new Date(to).toISOString(),
+            itemId,
+            limit,
+            offset
+        });
+        res.json({ ...result, limit, offset });
+    } catch (err) { next(err); }
+});
+
 router.get('/status/:jobId', async (req, res, next) => {
     try {
         const result = await MigrationService.getStatus(req.params.jobId);
+        if (!result) {
+            return res.status(404).json({ error: 'Job not found' });
+        }
         res.json(result);
     } catch (err) { next(err); }
 });
 
+/**
+ * Server-Sent Events stream of a job's progress, finished items and log lines.
+ * Reconnecting clients send Last-Event-ID (header, or `lastEventId` query for a
+ * fresh EventSource) and receive what they missed, or a new snapshot if those
+ * events are no longer buffered.
+ */
+router.get('/events/:jobId', async (req, res, next) => {
+    try {
+        const { jobId } = req.params;
+        const job = await MigrationService.getStatus(jobId);
+        if (!job) {
+            return res.status(404).json({ error: 'Job not found' });
+        }
+
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no',
+        });
+
+        const send = (event: JobEvent) => {
+            res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+        };
+
+        const lastEventId = Number(req.headers['last-event-id'] ?? req.query.lastEventId);
+        const missed = Number.isFinite(lastEventId) ? JobEvents.since(jobId, lastEventId) : null;
+
+        if (missed) {
+            missed.forEach(send);
+        } else {
+            send({ id: JobEvents.lastId(jobId), type: 'snapshot', data: job });
+        }
+
+        // Cancelled jobs keep running until their in-flight items finish
+        const ended = missed?.some(event => event.type === 'end');
+        if (ended || !MigrationService.isActive(jobId)) {
+            if (!ended) send({ id: JobEvents.lastId(jobId), type: 'end', data: job });
+            return res.end();
+        }
+
+        const unsubscribe = JobEvents.subscribe(jobId, event => {
+            send(event);
+            if (event.type === 'end') res.end();
+        });
+        const heartbeat = setInterval(() => res.write(': ping\n\n'), 15_000);
+
+        req.on('close', () => {
+            clearInterval(heartbeat);
+            unsubscribe();
+        });
+    } catch (err) { next(err); }
+});
+
 router.post('/cancel/:jobId', async (req, res, next) => {
     try {
         const result = await MigrationService.cancel(req.params.jobId);
@@ -31,4 +265,40 @@ router.post('/cancel/:jobId', async (req, res, next) => {
     } catch (err) { next(err); }
 });
 
+/**
+ * Start a child job with the failed and never-processed items of a finished job
+ */
+router.post('/retry/:jobId', async (req, res, next) => {
+    try {
+        const result = await MigrationService.retry(req.params.jobId);
+        if (!result) {
+            return res.status(404).json({ error: 'Job not found' });
+        }
+        res.json(result);
+    } catch (err) { next(err); }
+});
+
+/**
+ * Pause after the items in flight; the job keeps its position
+ */
+router.post('/pause/:jobId', async (req, res, next) => {
+    try {
+        const result = await MigrationService.pause(req.params.jobId);
+        if (!result) {
+            return res.status(404).json({ error: 'Job not found' });
+        }
+        res.json(result);
+    } catch (err) { next(err); }
+});
+
+router.post('/resume/:jobId', async (req, res, next) => {
+    try {
+        const result = await MigrationService.resume(req.params.jobId);
+        if (!result) {
+            return res.status(404).json({ error: 'Job not found' });
+        }
+        res.json(result);
+    } catch (err) { next(err); }
+});
+
 export default router;
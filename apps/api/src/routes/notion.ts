@@ -1,14 +1,18 @@
 import { Router } from 'express';
 import { NotionService } from '../services/NotionService';
+import { NotionCache } from '../services/NotionCache';
+import { JOB_TYPES, JobType } from '../services/JobStore';
 import { TursoService } from '../services/TursoService';
 import { generateContentHash } from '../lib/utils';
+import { Designer, MoodboardProduct, Spotlight } from '@repo/shared-types';
 
 const router = Router();
 
 router.get('/designers', async (req, res, next) => {
     try {
         const includeAll = req.query.all === 'true';
-        const designers = await NotionService.getDesigners(includeAll);
+        const designers = (await NotionCache.getAll('designers') as Designer[])
+            .filter(designer => includeAll || designer.published);
         res.json({ designers });
     } catch (err) { next(err); }
 });
@@ -16,29 +20,69 @@ router.get('/designers', async (req, res, next) => {
 router.get('/moodboard', async (req, res, next) => {
     try {
         const includeAll = req.query.all === 'true';
-        const products = await NotionService.getMoodboard(includeAll);
+        const products = (await NotionCache.getAll('moodboard') as MoodboardProduct[])
+            .filter(product => includeAll || product.published);
         res.json({ products });
     } catch (err) { next(err); }
 });
 
+router.get('/spotlight', async (req, res, next) => {
+    try {
+        const includeAll = req.query.all === 'true';
+        const entries = (await NotionCache.getAll('spotlight') as Spotlight[])
+            .filter(entry => includeAll || entry.published);
+        res.json({ entries });
+    } catch (err) { next(err); }
+});
+
+/**
+ * Notion request counts, 429s and retries across the API
+ */
+router.get('/metrics', (req, res) => {
+    res.json(NotionService.getMetrics());
+});
+
+router.post('/metrics/reset', (req, res) => {
+    NotionService.resetMetrics();
+    res.json(NotionService.getMetrics());
+});
+
+/**
+ * Pages held in the Notion cache per content type
+ */
+router.get('/cache', (req, res) => {
+    res.json(NotionCache.getStats());
+});
+
+/**
+ * Drop the cache of one content type (`?type=`) or all of them, so the next
+ * read lists the whole database again
+ */
+router.post('/cache/clear', (req, res) => {
+    const type = req.query.type as JobType | undefined;
+    if (type && !JOB_TYPES.includes(type)) {
+        return res.status(400).json({ error: `Invalid type. Must be one of ${JOB_TYPES.join(', ')}` });
+    }
+    NotionCache.clear(type);
+    res.json(NotionCache.getStats());
+});
+
 /**
  * Compare Notion items with Turso to determine migration status
  */
 router.post('/compare-status', async (req, res, next) => {
     try {
-        const { type } = req.body; // 'designers' or 'moodboard'
+        const { type } = req.body; // 'designers', 'moodboard' or 'spotlight'
 
-        if (!type || !['designers', 'moodboard'].includes(type)) {
+        if (!type || !['designers', 'moodboard', 'spotlight'].includes(type)) {
             return res.status(400).json({
-                error: 'Invalid type. Must be "designers" or "moodboard"'
+                error: 'Invalid type. Must be "designers", "moodboard" or "spotlight"'
             });
         }
 
         // Get ALL items from Notion (including unpublished)
         console.log(`Fetching ${type} from Notion...`);
-        const notionItems = type === 'designers'
-            ? await NotionService.getDesigners(true)
-            : await NotionService.getMoodboard(true);
+        const notionItems = await NotionCache.getAll(type);
         console.log(`Fetched ${notionItems.length} items from Notion`);
 
         // Get migrated items from Turso
@@ -46,7 +90,7 @@ router.post('/compare-status', async (req, res, next) => {
         console.log(`Checking status for ${notionIds.length} items in Turso...`);
         const tursoStatus = await TursoService.checkStatus(
             notionIds,
-            type === 'designers' ? 'designer' : 'moodboard'
+            type === 'designers' ? 'designer' : type
         );
         console.log(`Got Turso status for ${Object.keys(tursoStatus.statuses).length} items`);
 
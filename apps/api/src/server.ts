@@ -2,6 +2,12 @@ import express from 'express';
 import cors from 'cors';
 import { config } from './config';
 import { errorHandler } from './middleware/error-handler';
+import { JobStore } from './services/JobStore';
+import { SyncStore } from './services/SyncStore';
+import { SchedulerService } from './services/SchedulerService';
+import { SnapshotService } from './services/SnapshotService';
+import { MigrationService } from './services/MigrationService';
+import { NotionService } from './services/NotionService';
 
 import notionRoutes from './routes/notion';
 import tursoRoutes from './routes/turso';
@@ -24,6 +30,21 @@ app.use('/api/migration', migrationRoutes);
 
 app.use(errorHandler);
 
-app.listen(config.port, () => {
-    console.log(`Server running on port ${config.port}`);
+async function start() {
+    await NotionService.validateMappings();
+    await JobStore.init();
+    await SyncStore.init();
+    await SnapshotService.init();
+    SnapshotService.prune().catch(err => console.error('Failed to prune job snapshots:', err));
+    await MigrationService.recoverInterruptedJobs();
+    await SchedulerService.init();
+
+    app.listen(config.port, () => {
+        console.log(`Server running on port ${config.port}`);
+    });
+}
+
+start().catch(err => {
+    console.error('❌ Failed to start server:', err);
+    process.exit(1);
 });
@@ -1,12 +1,12 @@
-import { enrichSemantics, buildEmbeddingText, scrapeSource } from '../lib/semantic-enrichment';
+import { enrichSemantics, forgetEnrichment, scrapeSource } from '../lib/semantic-enrichment';
 
 export class EnrichmentService {
+    /**
+     * Scrape the product's source link and enrich it. Results are cached per
+     * product; `forceRegenerate` drops the cached ones first.
+     */
     static async generate(productData: any, forceRegenerate = false) {
-        // If forceRegenerate is true, we might need to bypass cache or similar?
-        // enrichSemantics uses memory cache.
-        // Ideally we pass force flag down, but lib doesn't support it yet. 
-        // We can clear cache entry manually if needed, or update lib.
-        // For now, simple wrapper.
+        if (forceRegenerate) forgetEnrichment(productData);
 
         let scrapedText = null;
         if (productData.link) {
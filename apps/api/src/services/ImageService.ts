@@ -1,4 +1,4 @@
-import { smartWebP } from '../lib/smart-webp';
+import { smartWebP, downloadImage } from '../lib/smart-webp';
 import { analyzeImage } from '../lib/image-analysis';
 import fetch from 'node-fetch'; // Standard fetch might be available but import for safety if using older node types, though I used ES2020 target. Node 18 globals are fine.
 import sharp from 'sharp'; // Needed for metadata
@@ -41,12 +41,19 @@ export class ImageService {
         };
     }
 
-    static async convert(imageUrl: string, strategy?: string, forceConvert?: boolean, storageKey?: string, isMoodboard?: boolean) {
+    static async download(imageUrl: string): Promise<Buffer> {
+        return downloadImage(imageUrl);
+    }
+
+    /**
+     * @param source - Image URL, or the already downloaded bytes
+     */
+    static async convert(source: string | Buffer, strategy?: string, forceConvert?: boolean, storageKey?: string, isMoodboard?: boolean) {
         // strategy is not effectively used by smartWebP yet unless we pass it, 
         // but smartWebP is smart enough. logic is inside smartWebP.
         // If client wants to override, we'd need to modify smartWebP. 
         // For now, ignoring strategy override from client to keep it simple as per smartWebP design.
-        const result = await smartWebP(imageUrl, forceConvert);
+        const result = await smartWebP(source, forceConvert);
 
         // If a storage key is provided, we save the result
         if (storageKey && result.buffer) {
@@ -57,6 +64,33 @@ export class ImageService {
         return result;
     }
 
+    /**
+     * Size in bytes of the source image without downloading it.
+     * Notion's signed URLs are only valid for GET, so request a single byte
+     * and read the total from Content-Range (falling back to Content-Length).
+     */
+    static async getSourceSize(imageUrl: string): Promise<number | null> {
+        const controller = new AbortController();
+        try {
+            const response = await fetch(imageUrl, {
+                headers: { Range: 'bytes=0-0' },
+                signal: controller.signal
+            });
+            if (!response.ok) return null;
+
+            const total = response.headers.get('content-range')?.split('/')[1];
+            const size = total && total !== '*'
+                ? Number(total)
+                : Number(response.headers.get('content-length'));
+            return Number.isFinite(size) && size > 0 ? size : null;
+        } catch {
+            return null;
+        } finally {
+            // Don't download the body if the server ignored the Range header
+            controller.abort();
+        }
+    }
+
     static async batchConvert(images: Array<{ id: string, url: string }>) {
         const results = [];
         for (const img of images) {
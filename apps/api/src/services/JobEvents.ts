@@ -0,0 +1,74 @@
+import { EventEmitter } from 'events';
+
+export type JobEventType = 'snapshot' | 'progress' | 'item' | 'log' | 'end';
+
+export interface JobEvent {
+    id: number;
+    type: JobEventType;
+    data: any;
+}
+
+// Events kept per job so reconnecting clients can catch up from Last-Event-ID
+const BUFFER_SIZE = 500;
+// How long a finished job's buffer is kept for late reconnects
+const RETAIN_AFTER_END_MS = 10 * 60 * 1000;
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+const buffers = new Map<string, { seq: number; events: JobEvent[] }>();
+
+export class JobEvents {
+    static publish(jobId: string, type: JobEventType, data: any): JobEvent {
+        let buffer = buffers.get(jobId);
+        if (!buffer) {
+            buffer = { seq: 0, events: [] };
+            buffers.set(jobId, buffer);
+        }
+
+        const event: JobEvent = { id: ++buffer.seq, type, data };
+        buffer.events.push(event);
+        if (buffer.events.length > BUFFER_SIZE) buffer.events.shift();
+
+        emitter.emit(jobId, event);
+
+        if (type === 'end') {
+            setTimeout(() => {
+                if (buffers.get(jobId) === buffer) buffers.delete(jobId);
+            }, RETAIN_AFTER_END_MS).unref();
+        }
+
+        return event;
+    }
+
+    static log(jobId: string, level: 'info' | 'warn' | 'error', message: string) {
+        return this.publish(jobId, 'log', { level, message, at: new Date().toISOString() });
+    }
+
+    /**
+     * ID of the latest event, used to tag snapshots so catch-up starts after them
+     */
+    static lastId(jobId: string): number {
+        return buffers.get(jobId)?.seq ?? 0;
+    }
+
+    /**
+     * Events published after `lastId`, or null when they are no longer buffered
+     * (e.g. after a restart) and the client needs a fresh snapshot instead.
+     */
+    static since(jobId: string, lastId: number): JobEvent[] | null {
+        const buffer = buffers.get(jobId);
+        if (!buffer || lastId > buffer.seq) return null;
+
+        const missed = buffer.events.filter(event => event.id > lastId);
+        const oldest = buffer.events[0]?.id ?? buffer.seq + 1;
+        if (lastId + 1 < oldest) return null;
+
+        return missed;
+    }
+
+    static subscribe(jobId: string, listener: (event: JobEvent) => void): () => void {
+        emitter.on(jobId, listener);
+        return () => emitter.off(jobId, listener);
+    }
+}
@@ -0,0 +1,306 @@
+import fs from 'fs';
+import path from 'path';
+import { createClient } from '@libsql/client';
+import { config } from '../config';
+import { ItemReport } from '@repo/shared-types';
+import { RollbackResult } from './SnapshotService';
+
+export type JobType = 'designers' | 'moodboard' | 'spotlight';
+export const JOB_TYPES: JobType[] = ['designers', 'moodboard', 'spotlight'];
+export type JobStatus = 'queued' | 'processing' | 'paused' | 'completed' | 'failed' | 'cancelled';
+export const JOB_STATUSES: JobStatus[] = ['queued', 'processing', 'paused', 'completed', 'failed', 'cancelled'];
+// What a job migrates: 'metadata-only' writes Turso fields without image work,
+// 'images-only' re-optimises images and updates only their Turso columns,
+// 'embeddings-only' re-embeds stored embedding text without touching Notion, R2 or rows,
+// and 'enrichment-only' re-enriches products from their rows and rebuilds that text first
+export type JobScope = 'full' | 'metadata-only' | 'images-only' | 'embeddings-only' | 'enrichment-only';
+export const JOB_SCOPES: JobScope[] = ['full', 'metadata-only', 'images-only', 'embeddings-only', 'enrichment-only'];
+// What to do with an item another active job still has pending
+export type LockPolicy = 'skip' | 'queue';
+export const LOCK_POLICIES: LockPolicy[] = ['skip', 'queue'];
+
+export interface Job {
+    id: string;
+    type: JobType;
+    items: string[];
+    status: JobStatus;
+    progress: { total: number; completed: number; failed: number; current: string | null };
+    results: any[];
+    errors: any[];
+    // Per-item step timeline, keyed by item ID
+    reports: Record<string, ItemReport>;
+    startTime: string;
+    endTime?: string;
+    interruptedAt?: string;
+    // Set while paused; resuming continues from the next pending item
+    pausedAt?: string;
+    // Set on incremental sync jobs; the watermark is stored once the job succeeds
+    sync?: { since: string | null; watermark: string };
+    scope?: JobScope;
+    // Migrate items and images even when their hashes are unchanged
+    force?: boolean;
+    // Wait for items held by another job instead of skipping them
+    onLocked?: LockPolicy;
+    // ID of the schedule that started the job, if any
+    scheduledBy?: string;
+    // Parent job whose failed items this job retries, and the retries started from this job
+    retryOf?: string;
+    retries?: string[];
+    rollback?: { at: string } & RollbackResult;
+}
+
+export interface JobFilters {
+    type?: JobType;
+    status?: JobStatus;
+    // ISO timestamps bounding the job's start time
+    from?: string;
+    to?: string;
+    // Only jobs that included this Notion item
+    itemId?: string;
+    limit: number;
+    offset: number;
+}
+
+/**
+ * A job without its per-item results and reports, for history listings
+ */
+export interface JobSummary {
+    id: string;
+    type: JobType;
+    status: JobStatus;
+    scope?: JobScope;
+    scheduledBy?: string;
+    force?: boolean;
+    retryOf?: string;
+    startTime: string;
+    endTime: string | null;
+    durationMs: number | null;
+    items: number;
+    succeeded: number;
+    failed: number;
+    skipped: number;
+    removed: number;
+    rolledBackAt: string | null;
+}
+
+function toSummary(job: Job): JobSummary {
+    const count = (status: string) => job.results.filter(result => result?.status === status).length;
+    return {
+        id: job.id,
+        type: job.type,
+        status: job.status,
+        scope: job.scope,
+        scheduledBy: job.scheduledBy,
+        force: job.force,
+        retryOf: job.retryOf,
+        startTime: job.startTime,
+        endTime: job.endTime ?? null,
+        durationMs: job.endTime ? Date.parse(job.endTime) - Date.parse(job.startTime) : null,
+        items: job.items.length,
+        succeeded: count('success'),
+        failed: job.errors.length,
+        skipped: count('skipped'),
+        removed: count('removed'),
+        rolledBackAt: job.rollback?.at ?? null,
+    };
+}
+
+// libsql won't create missing directories for file: URLs
+if (config.jobs.dbUrl.startsWith('file:')) {
+    fs.mkdirSync(path.dirname(config.jobs.dbUrl.slice('file:'.length)), { recursive: true });
+}
+
+export const jobsDb = createClient({
+    url: config.jobs.dbUrl,
+    authToken: config.jobs.dbAuthToken,
+});
+
+// How long an idempotency key keeps returning the job it started
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Pending write per job, so saves of the same job land in order
+const writes = new Map<string, Promise<void>>();
+
+export class JobStore {
+    static async init() {
+        await jobsDb.execute(`
+            CREATE TABLE IF NOT EXISTS migration_jobs (
+                id TEXT PRIMARY KEY,
+                type TEXT NOT NULL,
+                status TEXT NOT NULL,
+                data TEXT NOT NULL,
+                start_time TEXT NOT NULL,
+                end_time TEXT,
+                updated_at TEXT NOT NULL
+            )
+        `);
+        await jobsDb.execute(`
+            CREATE INDEX IF NOT EXISTS idx_migration_jobs_status ON migration_jobs(status)
+        `);
+        await jobsDb.execute(`
+            CREATE INDEX IF NOT EXISTS idx_migration_jobs_start_time ON migration_jobs(start_time)
+        `);
+        await jobsDb.execute(`
+            CREATE TABLE IF NOT EXISTS idempotency_keys (
+                key TEXT PRIMARY KEY,
+                job_id TEXT NOT NULL,
+                request_hash TEXT NOT NULL,
+                created_at TEXT NOT NULL
+            )
+        `);
+    }
+
+    /**
+     * Bind an idempotency key to a new job, unless a request within the last
+     * day already used it. The insert is atomic, so of two concurrent requests
+     * with the same key only one gets to start a job.
+     * @returns the job and request hash the key is already bound to, or null once claimed
+     */
+    static async claimIdempotencyKey(key: string, jobId: string, requestHash: string) {
+        const now = Date.now();
+        await jobsDb.execute({
+            sql: `
+                INSERT INTO idempotency_keys (key, job_id, request_hash, created_at)
+                VALUES (?, ?, ?, ?)
+                ON CONFLICT(key) DO UPDATE SET
+                    job_id=excluded.job_id,
+                    request_hash=excluded.request_hash,
+                    created_at=excluded.created_at
+                WHERE idempotency_keys.created_at < ?
+            `,
+            args: [key, jobId, requestHash, new Date(now).toISOString(), new Date(now - IDEMPOTENCY_TTL_MS).toISOString()]
+        });
+
+        const result = await jobsDb.execute({
+            sql: 'SELECT job_id, request_hash FROM idempotency_keys WHERE key = ?',
+            args: [key]
+        });
+        const row = result.rows[0];
+        if (row['job_id'] === jobId) return null;
+        return { jobId: row['job_id'] as string, requestHash: row['request_hash'] as string };
+    }
+
+    /**
+     * Persist a snapshot of the job. Writes are chained per job, so callers
+     * can fire-and-forget after each progress update without reordering.
+     */
+    static save(job: Job): Promise<void> {
+        const snapshot = JSON.stringify(job);
+        const args = [job.id, job.type, job.status, snapshot, job.startTime, job.endTime ?? null, new Date().toISOString()];
+
+        const previous = writes.get(job.id) ?? Promise.resolve();
+        const next = previous
+            .then(() => jobsDb.execute({
+                sql: `
+                    INSERT INTO migration_jobs (id, type, status, data, start_time, end_time, updated_at)
+                    VALUES (?, ?, ?, ?, ?, ?, ?)
+                    ON CONFLICT(id) DO UPDATE SET
+                        status=excluded.status,
+                        data=excluded.data,
+                        end_time=excluded.end_time,
+                        updated_at=excluded.updated_at
+                `,
+                args
+            }))
+            .then(() => undefined)
+            .catch(err => console.error(`Failed to persist job ${job.id}:`, err));
+
+        writes.set(job.id, next);
+        next.then(() => {
+            if (writes.get(job.id) === next) writes.delete(job.id);
+        });
+        return next;
+    }
+
+    static async get(jobId: string): Promise<Job | null> {
+        const result = await jobsDb.execute({
+            sql: 'SELECT data FROM migration_jobs WHERE id = ?',
+            args: [jobId]
+        });
+        const row = result.rows[0];
+        return row ? JSON.parse(row['data'] as string) : null;
+    }
+
+    /**
+     * Current status of each job, without loading the full snapshots
+     */
+    static async getStatuses(jobIds: string[]): Promise<Record<string, JobStatus>> {
+        const statuses: Record<string, JobStatus> = {};
+        if (jobIds.length === 0) return statuses;
+
+        const placeholders = jobIds.map(() => '?').join(',');
+        const result = await jobsDb.execute({
+            sql: `SELECT id, status FROM migration_jobs WHERE id IN (${placeholders})`,
+            args: jobIds
+        });
+        result.rows.forEach(row => {
+            statuses[row['id'] as string] = row['status'] as JobStatus;
+        });
+        return statuses;
+    }
+
+    /**
+     * Page of job summaries, newest first, with the number of jobs matching the filters
+     */
+    static async list(filters: JobFilters): Promise<{ jobs: JobSummary[]; total: number }> {
+        const conditions: string[] = [];
+        const args: Array<string | number> = [];
+
+        if (filters.type) {
+            conditions.push('type = ?');
+            args.push(filters.type);
+        }
+        if (filters.status) {
+            conditions.push('status = ?');
+            args.push(filters.status);
+        }
+        if (filters.from) {
+            conditions.push('start_time >= ?');
+            args.push(filters.from);
+        }
+        if (filters.to) {
+            conditions.push('start_time <= ?');
+            args.push(filters.to);
+        }
+        if (filters.itemId) {
+            conditions.push(`EXISTS (SELECT 1 FROM json_each(data, '$.items') WHERE value = ?)`);
+            args.push(filters.itemId);
+        }
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+        const [count, page] = await Promise.all([
+            jobsDb.execute({ sql: `SELECT COUNT(*) AS total FROM migration_jobs ${where}`, args }),
+            jobsDb.execute({
+                sql: `SELECT data FROM migration_jobs ${where} ORDER BY start_time DESC LIMIT ? OFFSET ?`,
+                args: [...args, filters.limit, filters.offset]
+            })
+        ]);
+
+        return {
+            jobs: page.rows.map(row => toSummary(JSON.parse(row['data'] as string))),
+            total: Number(count.rows[0]['total'])
+        };
+    }
+
+    /**
+     * Jobs left queued or processing, i.e. interrupted by a restart
+     */
+    static async findUnfinished(): Promise<Job[]> {
+        const result = await jobsDb.execute(
+            `SELECT data FROM migration_jobs WHERE status IN ('queued', 'processing') ORDER BY start_time`
+        );
+        return result.rows.map(row => JSON.parse(row['data'] as string));
+    }
+
+    /**
+     * Whether a paused job of one of these types is waiting to be resumed
+     */
+    static async hasPaused(types: JobType[]): Promise<boolean> {
+        if (types.length === 0) return false;
+        const result = await jobsDb.execute({
+            sql: `SELECT 1 FROM migration_jobs WHERE status = 'paused' AND type IN (${types.map(() => '?').join(', ')}) LIMIT 1`,
+            args: types
+        });
+        return result.rows.length > 0;
+    }
+}
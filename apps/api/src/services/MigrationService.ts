@@ -1,31 +1,113 @@
-import { turso } from './TursoService';
+import { turso, TursoService, ContentTable } from './TursoService';
 import { StorageService } from './StorageService';
 import { ImageService } from './ImageService';
-import { NotionService } from './NotionService';
+import { NotionService, NotionItem } from './NotionService';
+import { WriteBackValues } from '../lib/notion-mapping';
+import { NotionCache } from './NotionCache';
 import { EnrichmentService } from './EnrichmentService';
 import { VectorizeService } from './VectorizeService';
-import { buildEmbeddingText } from '../lib/semantic-enrichment';
-import { generateId, generateContentHash } from '../lib/utils';
+import { JobStore, Job, JobType, JobScope, LockPolicy, JOB_TYPES } from './JobStore';
+import { JobEvents } from './JobEvents';
+import { SyncStore } from './SyncStore';
+import { SnapshotService } from './SnapshotService';
+import { SlugService, SlugTable } from './SlugService';
+import { ProductEmbeddingService, EmbeddedImage } from './ProductEmbeddingService';
+import { buildEmbeddingText, ENRICHMENT_VERSION } from '../lib/semantic-enrichment';
+import { diffDesigner, diffProduct, diffSpotlight, changesInScope, FieldChange } from '../lib/migration-diff';
+import { planImageSet, ImageSetPlan } from '../lib/image-set';
+import { generateId, generateContentHash, generateSourceHash, generateRequestHash, formatBytes, mapWithConcurrency } from '../lib/utils';
+import { withRetry, RetryOptions } from '../lib/retry';
+import { classifyError, isExpiredSignedUrl, HttpError, MigrationStep, StepError } from '../lib/errors';
 import { config } from '../config';
-import { Designer, MoodboardProduct } from '@repo/shared-types';
+import { Designer, MoodboardProduct, Spotlight, ItemReport, ImageReport, StepTiming } from '@repo/shared-types';
 
-interface Job {
+// Jobs being processed by this process; finished jobs are read back from JobStore
+const jobs = new Map<string, Job>();
+// Jobs asked to pause, still finishing the items in flight
+const pausing = new Set<string>();
+// Order in which active jobs were (re)started; a job only yields items to earlier ones
+const activatedAt = new Map<string, number>();
+let activations = 0;
+
+// How often a job queued behind another job's item checks whether it is free
+const ITEM_LOCK_POLL_MS = 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Rough throughput figures for dry-run duration estimates
+const ESTIMATE = {
+    downloadBytesPerMs: 2_000, // ~2 MB/s from Notion's S3
+    convertMsPerImage: 1_500,  // analyse + SSIM search + upload
+    enrichmentMsPerProduct: 4_000,
+};
+
+// Turso table used for each job type
+const CONTENT_TABLES: Record<JobType, ContentTable> = {
+    designers: 'designer',
+    moodboard: 'moodboard',
+    spotlight: 'spotlight',
+};
+
+// Turso table names, for snapshots taken before rows are changed
+const CONTENT_TABLE_NAMES: Record<JobType, string> = {
+    designers: 'studios',
+    moodboard: 'products',
+    spotlight: 'spotlight',
+};
+
+// Notion rounds last_edited_time down to the minute, so incremental syncs look
+// back a little further than the watermark; re-seen items are filtered by hash
+const SYNC_LOOKBACK_MS = 2 * 60 * 1000;
+
+// Notion pages updated at once when writing migration status back; the client's rate limit still applies
+const WRITE_BACK_CONCURRENCY = 3;
+
+interface RemovalPlan {
     id: string;
-    type: 'designers' | 'moodboard';
-    items: string[];
-    status: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
-    progress: { total: number; completed: number; failed: number; current: string | null };
-    results: any[];
-    errors: any[];
-    startTime: string;
-    endTime?: string;
+    name: string;
+    reason: string;
+    rows: 'status' | 'delete';
+    targetStatus: string;
+    objects: 'quarantine' | 'delete';
+    r2Keys: string[];
+    vectorIds: string[];
+    productImages: number;
 }
 
-const jobs = new Map<string, Job>();
-
 export class MigrationService {
-    static async execute(payload: { type: 'designers' | 'moodboard', ids: string[] }) {
+    /**
+     * Queue a migration of the given items. Items whose content hash matches
+     * Turso, and images whose source bytes are unchanged, are skipped unless `force` is set.
+     * `scope` limits the job to metadata, images or embeddings of already migrated items.
+     *
+     * A repeated `idempotencyKey` returns the job the key started instead of a
+     * new one. Items another active job still has pending are skipped, or with
+     * `onLocked: 'queue'` wait for it; they are listed in `locked`.
+     */
+    static async execute(
+        payload: { type: JobType, ids: string[], scope?: JobScope, force?: boolean, onLocked?: LockPolicy, idempotencyKey?: string },
+        extra: Pick<Job, 'sync' | 'scheduledBy' | 'retryOf'> = {}
+    ) {
         const jobId = generateId();
+
+        if (payload.idempotencyKey) {
+            const requestHash = generateRequestHash({
+                type: payload.type,
+                ids: [...payload.ids].sort(),
+                scope: payload.scope ?? 'full',
+                force: payload.force === true,
+                onLocked: payload.onLocked ?? 'skip'
+            });
+            const existing = await JobStore.claimIdempotencyKey(payload.idempotencyKey, jobId, requestHash);
+            if (existing) {
+                if (existing.requestHash !== requestHash) {
+                    throw new HttpError('Idempotency key was already used for a different request', 422);
+                }
+                const previous = await this.getStatus(existing.jobId);
+                return { jobId: existing.jobId, status: previous?.status ?? 'queued', duplicate: true };
+            }
+        }
+
         const job: Job = {
             id: jobId,
             type: payload.type,
@@ -34,19 +116,179 @@ export class MigrationService {
             progress: { total: payload.ids.length, completed: 0, failed: 0, current: null },
             results: [],
             errors: [],
-            startTime: new Date().toISOString()
+            reports: {},
+            startTime: new Date().toISOString(),
+            ...(payload.scope && payload.scope !== 'full' && { scope: payload.scope }),
+            ...(payload.force === true && { force: true }),
+            ...(payload.onLocked === 'queue' && { onLocked: 'queue' as const }),
+            ...extra
         };
 
-        jobs.set(jobId, job);
+        this.activate(job);
+        await JobStore.save(job);
+
+        const locked = job.items.flatMap(id => {
+            const heldBy = this.itemHolder(job, id);
+            return heldBy ? [{ id, heldBy, action: job.onLocked === 'queue' ? 'queued' : 'skipped' }] : [];
+        });
+        if (locked.length > 0) {
+            JobEvents.log(jobId, 'warn', `${locked.length} item(s) are pending in other jobs and will be ${job.onLocked === 'queue' ? 'queued behind them' : 'skipped'}`);
+        }
 
         // Start processing in background (don't await)
         this.processJob(jobId);
 
-        return { jobId, status: 'queued' };
+        return { jobId, status: 'queued', locked };
+    }
+
+    /**
+     * Enqueue every item added, changed or unpublished in Notion since the last
+     * successful sync of this content type as one job. Candidates come from
+     * the last_edited_time of the cached Notion pages; the content hash drops edits that don't affect
+     * migrated fields. Without a watermark, every item is compared.
+     */
+    static async sync(payload: { type: JobType, dryRun?: boolean, full?: boolean }, extra: Pick<Job, 'scheduledBy'> = {}) {
+        const { type } = payload;
+        const previous = payload.full ? null : await SyncStore.get(type);
+        const watermark = new Date().toISOString();
+        const since = previous
+            ? new Date(Date.parse(previous.watermark) - SYNC_LOOKBACK_MS).toISOString()
+            : null;
+
+        const edited = (await NotionCache.getAll(type))
+            .filter(item => !since || (item.lastEditedTime ?? '') >= since);
+        const rows = await TursoService.getByNotionIds(edited.map(item => item.id), CONTENT_TABLES[type]);
+
+        const adding: Array<{ id: string; name: string }> = [];
+        const updating: Array<{ id: string; name: string }> = [];
+        const removing: Array<{ id: string; name: string }> = [];
+
+        for (const item of edited) {
+            const row = rows[item.id];
+            const ref = { id: item.id, name: item.name };
+
+            if (!item.published) {
+                // Spotlight rows have no status; any row is live
+                if (row && (row.status === undefined || row.status === 'Published')) removing.push(ref);
+            } else if (!row) {
+                adding.push(ref);
+            } else if (payload.full || generateContentHash(item) !== row.content_hash) {
+                updating.push(ref);
+            }
+        }
+
+        const ids = [...adding, ...updating, ...removing].map(item => item.id);
+        const summary = {
+            type,
+            since,
+            watermark,
+            edited: edited.length,
+            details: { adding, updating, removing }
+        };
+
+        if (payload.dryRun) return { jobId: null, ...summary };
+
+        if (ids.length === 0) {
+            await SyncStore.set(type, watermark, null);
+            return { jobId: null, ...summary };
+        }
+
+        // A full sync re-migrates everything, so it bypasses the unchanged-item check.
+        // Items are queued behind other jobs, since skipped ones would fall behind the watermark.
+        const { jobId } = await this.execute(
+            { type, ids, force: payload.full, onLocked: 'queue' },
+            { ...extra, sync: { since, watermark } }
+        );
+        JobEvents.log(jobId, 'info', payload.full
+            ? `Full sync of ${type}`
+            : `Incremental sync of ${type} since ${since ?? 'the beginning'}`);
+        return { jobId, ...summary };
+    }
+
+    /**
+     * Re-embed every live product from the embedding text stored in Turso, or
+     * with `failedOnly` just the products with a failed embedding
+     */
+    static async refreshEmbeddings(payload: { failedOnly?: boolean } = {}, extra: Pick<Job, 'scheduledBy'> = {}) {
+        const ids = payload.failedOnly
+            ? await ProductEmbeddingService.getFailedNotionIds()
+            : await TursoService.getPublishedNotionIds('moodboard');
+        if (ids.length === 0) return { jobId: null, items: 0 };
+
+        const { jobId } = await this.execute({ type: 'moodboard', ids, scope: 'embeddings-only' }, extra);
+        return { jobId, items: ids.length };
+    }
+
+    /**
+     * Re-enrich every live product and rebuild its embedding text, then
+     * re-embed. Products already enriched by the current version are left
+     * alone unless forced; with `dryRun`, only previews which would change.
+     */
+    static async regenerateEmbeddings(payload: { force?: boolean, dryRun?: boolean } = {}, extra: Pick<Job, 'scheduledBy'> = {}) {
+        const ids = await TursoService.getPublishedNotionIds('moodboard');
+        const request = { type: 'moodboard' as const, ids, scope: 'enrichment-only' as const, force: payload.force };
+
+        if (payload.dryRun) return { jobId: null, ...(await this.dryRun(request)) };
+        if (ids.length === 0) return { jobId: null, items: 0 };
+
+        const { jobId } = await this.execute(request, extra);
+        return { jobId, items: ids.length };
+    }
+
+    /**
+     * Undo a finished job: put back the rows, R2 objects and vectors it
+     * overwrote or removed, and delete the ones it created. Later jobs that
+     * touched the same items are overwritten too.
+     */
+    static async rollback(jobId: string) {
+        const job = await this.getStatus(jobId);
+        if (!job) return null;
+        if (!SnapshotService.isEnabled()) {
+            throw new HttpError('Rollback is not available: R2_SNAPSHOT_BUCKET is not set, so no snapshots are kept', 501);
+        }
+        if (this.isActive(jobId)) {
+            throw new HttpError('Job is still running; cancel it and wait for it to finish first', 409);
+        }
+        if (!['completed', 'failed', 'cancelled'].includes(job.status)) {
+            throw new HttpError(`Only completed, failed or cancelled jobs can be rolled back; job is ${job.status}`, 409);
+        }
+        if (job.rollback) {
+            throw new HttpError(`Job was already rolled back at ${job.rollback.at}`, 409);
+        }
+        if (SnapshotService.isExpired(job)) {
+            throw new HttpError(`Job snapshots are pruned after ${config.migration.snapshotRetentionDays} days; it can no longer be rolled back`, 410);
+        }
+
+        const result = await SnapshotService.restore(jobId);
+        job.rollback = { at: new Date().toISOString(), ...result };
+        await JobStore.save(job);
+        console.log(`Rolled back job ${jobId}:`, JSON.stringify(result));
+
+        return { jobId, ...job.rollback };
+    }
+
+    /**
+     * Whether a job of this process is writing to the same Turso table as `type`,
+     * or a paused one (no longer in memory) would resume writing to it
+     */
+    static async hasActiveJob(type: JobType): Promise<boolean> {
+        if ([...jobs.values()].some(job => CONTENT_TABLES[job.type] === CONTENT_TABLES[type])) return true;
+        return JobStore.hasPaused(JOB_TYPES.filter(other => CONTENT_TABLES[other] === CONTENT_TABLES[type]));
+    }
+
+    static async getSyncState() {
+        return { watermarks: await SyncStore.list() };
     }
 
     static async getStatus(jobId: string) {
-        return jobs.get(jobId);
+        return jobs.get(jobId) ?? await JobStore.get(jobId);
+    }
+
+    /**
+     * Whether the job is still being processed by this API instance
+     */
+    static isActive(jobId: string): boolean {
+        return jobs.has(jobId);
     }
 
     static async cancel(jobId: string) {
@@ -54,22 +296,290 @@ export class MigrationService {
         if (job && job.status === 'processing') {
             job.status = 'cancelled';
             job.endTime = new Date().toISOString();
+            await this.persist(job);
+            JobEvents.log(job.id, 'warn', 'Cancellation requested; finishing items in flight');
+            return { cancelled: true };
+        }
+
+        // A paused job has nothing in flight, so it ends right away
+        const paused = job ? null : await JobStore.get(jobId);
+        if (paused?.status === 'paused') {
+            paused.status = 'cancelled';
+            paused.endTime = new Date().toISOString();
+            delete paused.pausedAt;
+            await JobStore.save(paused);
+            JobEvents.log(jobId, 'warn', 'Paused job cancelled');
+            JobEvents.publish(jobId, 'end', paused);
         }
         return { cancelled: true };
     }
 
-    static async dryRun(payload: any) {
-        // Just return a summary of what would happen
+    /**
+     * Start a child job with the items of a finished job that failed or were
+     * never processed (e.g. because it was cancelled)
+     */
+    static async retry(jobId: string) {
+        const job = await this.getStatus(jobId);
+        if (!job) return null;
+        if (this.isActive(jobId)) {
+            throw new HttpError('Job is still running; wait for it to finish first', 409);
+        }
+        if (job.status === 'paused') {
+            throw new HttpError('Job is paused; resume it instead', 409);
+        }
+
+        // Job-level errors are plain strings; item errors carry the item ID
+        const failed = job.errors.map(entry => entry?.id).filter(Boolean);
+        const ids = [...new Set([...failed, ...this.pendingItems(job)])];
+        if (ids.length === 0) {
+            throw new HttpError('Job has no failed or unprocessed items to retry', 409);
+        }
+
+        const result = await this.execute(
+            { type: job.type, ids, scope: job.scope, force: job.force, onLocked: job.onLocked },
+            { retryOf: job.id }
+        );
+
+        job.retries = [...(job.retries || []), result.jobId];
+        await JobStore.save(job);
+        JobEvents.log(result.jobId, 'info', `Retrying ${ids.length} item(s) of job ${job.id}`);
+
+        return { ...result, retryOf: job.id, items: ids.length };
+    }
+
+    /**
+     * Stop taking new items; the items in flight finish and the job is then
+     * held as 'paused' until resumed
+     */
+    static async pause(jobId: string) {
+        const job = jobs.get(jobId);
+        if (!job) {
+            if (!(await JobStore.get(jobId))) return null;
+            throw new HttpError('Job is not running', 409);
+        }
+        if (job.status !== 'processing' && job.status !== 'queued') {
+            throw new HttpError(`Job is ${job.status}`, 409);
+        }
+
+        pausing.add(jobId);
+        JobEvents.log(jobId, 'warn', 'Pause requested; finishing items in flight');
+        return { jobId, status: 'pausing' };
+    }
+
+    /**
+     * Continue a paused job from its next pending item
+     */
+    static async resume(jobId: string) {
+        if (jobs.has(jobId)) {
+            throw new HttpError(pausing.has(jobId)
+                ? 'Job is still pausing; resume it once the items in flight finish'
+                : 'Job is already running', 409);
+        }
+
+        const job = await JobStore.get(jobId);
+        if (!job) return null;
+        if (job.status !== 'paused') {
+            throw new HttpError(`Only paused jobs can be resumed; job is ${job.status}`, 409);
+        }
+
+        job.status = 'queued';
+        delete job.pausedAt;
+        this.activate(job);
+        await JobStore.save(job);
+        JobEvents.log(jobId, 'info', `Resuming with ${this.pendingItems(job).length} pending items`);
+
+        this.processJob(jobId);
+        return { jobId, status: 'queued' };
+    }
+
+    /**
+     * Handle jobs left queued/processing by a previous run of the API.
+     * Depending on config, they either resume from the next unprocessed item
+     * or are marked failed so the dashboard stops waiting on them.
+     */
+    static async recoverInterruptedJobs() {
+        const unfinished = await JobStore.findUnfinished();
+
+        for (const job of unfinished) {
+            job.reports ||= {};
+            const remaining = this.pendingItems(job).length;
+            job.interruptedAt = new Date().toISOString();
+            job.progress.current = null;
+
+            if (config.jobs.resumeInterrupted && remaining > 0) {
+                console.log(`Resuming interrupted job ${job.id} (${remaining} items remaining)`);
+                job.status = 'queued';
+                this.activate(job);
+                await JobStore.save(job);
+                this.processJob(job.id);
+            } else {
+                console.log(`Marking interrupted job ${job.id} as failed`);
+                job.status = 'failed';
+                job.endTime = job.interruptedAt;
+                job.errors.push(`Interrupted by API restart with ${remaining} of ${job.items.length} items unprocessed`);
+                await JobStore.save(job);
+                JobEvents.publish(job.id, 'end', job);
+            }
+        }
+    }
+
+    /**
+     * Preview what execute would do for the selected items: compares Notion
+     * content hashes with Turso, lists field-level changes and estimates cost
+     * from the real image sizes. Changes and costs are limited to the job's scope.
+     */
+    static async dryRun(payload: { type: JobType, ids: string[], scope?: JobScope, force?: boolean }) {
+        const ids = payload.ids || [];
+        const isMoodboard = payload.type === 'moodboard';
+        const scope = payload.scope ?? 'full';
+        const withImages = scope === 'full' || scope === 'images-only';
+
+        const notionItems = await NotionCache.getAll(payload.type);
+        const notionById = new Map(notionItems.map(item => [item.id, item]));
+
+        const rows = await TursoService.getByNotionIds(ids, CONTENT_TABLES[payload.type]);
+        const imageRows = isMoodboard
+            ? await TursoService.getProductImages(Object.values(rows).map(row => row.id))
+            : {};
+
+        const adding: Array<{ id: string; name: string }> = [];
+        const updating: Array<{ id: string; name: string; changes: FieldChange[] }> = [];
+        const unchanged: Array<{ id: string; name: string }> = [];
+        const removing: RemovalPlan[] = [];
+        const warnings: string[] = [];
+        const toMigrate: NotionItem[] = [];
+        const imagePlans = new Map<string, ImageSetPlan>();
+
+        for (const id of ids) {
+            const item = notionById.get(id);
+            const row = rows[id];
+
+            if (!item?.published) {
+                if (row && scope !== 'full') warnings.push(`${item?.name ?? row.name} is not published in Notion; only a full migration takes it offline`);
+                else if (row) removing.push(this.buildRemovalPlan(payload.type, row, imageRows[row.id] || [], item));
+                else if (item) warnings.push(`${item.name} is not published in Notion and will be skipped`);
+                else warnings.push(`${id} was not found in Notion or Turso`);
+                continue;
+            }
+
+            if (payload.type === 'spotlight') {
+                warnings.push(...this.spotlightWarnings(item as Spotlight));
+            }
+
+            if (!row && scope !== 'full') {
+                warnings.push(`${item.name} has not been migrated yet and will fail; run a full migration first`);
+            } else if (!row) {
+                adding.push({ id, name: item.name });
+                toMigrate.push(item);
+                if (payload.type !== 'spotlight') {
+                    const slug = await SlugService.preview(payload.type === 'designers' ? 'studios' : 'products', id, item.name, null);
+                    if (slug !== SlugService.base(item.name)) {
+                        warnings.push(`${item.name} will be published as "${slug}", its slug is already taken`);
+                    }
+                }
+            } else {
+                // Images-only jobs keep the slug
+                const slug = payload.type === 'spotlight'
+                    ? null
+                    : scope === 'images-only'
+                        ? row.slug
+                        : await SlugService.preview(payload.type === 'designers' ? 'studios' : 'products', id, item.name, row.slug);
+                if (isMoodboard && withImages) {
+                    imagePlans.set(id, planImageSet(row.id, slug!, (item as MoodboardProduct).images, imageRows[row.id] || []));
+                }
+
+                const live = payload.type === 'spotlight' || row.status === 'Published';
+                // Enrichment-only jobs go by enrichment version instead of content hash
+                const upToDate = scope === 'enrichment-only'
+                    ? this.isEnrichmentCurrent(imageRows[row.id] || [])
+                    : (scope === 'full' || scope === 'metadata-only') && live && generateContentHash(item) === row.content_hash;
+                if (upToDate) {
+                    unchanged.push({ id, name: item.name });
+                    // Execute skips unchanged items unless forced
+                    if (payload.force) toMigrate.push(item);
+                } else {
+                    const changes = payload.type === 'spotlight'
+                        ? diffSpotlight(item as Spotlight, row)
+                        : payload.type === 'designers'
+                            ? diffDesigner(item as Designer, row, slug!)
+                            : diffProduct(item as MoodboardProduct, row, imageRows[row.id] || [], slug!);
+                    updating.push({ id, name: item.name, changes: changesInScope(changes, scope) });
+                    toMigrate.push(item);
+                }
+            }
+        }
+
+        if (payload.type === 'spotlight') {
+            warnings.push(...await this.unmigratedProductWarnings(toMigrate as Spotlight[]));
+        }
+
+        const imageUrls = !withImages ? [] : toMigrate.flatMap(item => {
+            if (payload.type === 'designers') return (item as Designer).coverUrl ? [(item as Designer).coverUrl] : [];
+            if (payload.type === 'moodboard') {
+                // Moved images are copied within R2, not downloaded and converted
+                const plan = imagePlans.get(item.id);
+                return (item as MoodboardProduct).images
+                    .filter((img, i) => img.url && !plan?.images[i].movedFrom)
+                    .map(img => img.url);
+            }
+            return [];
+        });
+
+        const plans = [...imagePlans.values()];
+        const imageCopies = plans.reduce((sum, plan) => sum + plan.images.filter(img => img.movedFrom).length, 0);
+        const staleKeys = plans.reduce((sum, plan) => sum + plan.stale.r2Keys.length, 0);
+        const staleVectors = plans.reduce((sum, plan) => sum + plan.stale.vectorIds.length, 0);
+
+        const sizes = await mapWithConcurrency(imageUrls, 8, url => ImageService.getSourceSize(url));
+        const unknownSizes = sizes.filter(size => size === null).length;
+        const sourceBytes = sizes.reduce<number>((sum, size) => sum + (size ?? 0), 0);
+
+        if (unknownSizes > 0) {
+            warnings.push(`Could not determine the size of ${unknownSizes} of ${imageUrls.length} source images`);
+        }
+
+        // Embeddings-only jobs re-embed every image with stored embedding text,
+        // enrichment-only ones (at most) every stored image
+        const storedImages = (item: NotionItem) => imageRows[rows[item.id]?.id] || [];
+        const imageCount = imageUrls.length;
+        const embeddedCount = withImages
+            ? imageCount + imageCopies
+            : scope === 'embeddings-only' || scope === 'enrichment-only'
+                ? toMigrate.reduce((sum, item) => sum + storedImages(item)
+                    .filter(img => scope === 'enrichment-only' || img.embedding_text).length, 0)
+                : 0;
+        // Products enriched; images-only jobs reuse the stored enrichment where there is one
+        const productCount = !isMoodboard ? 0 : toMigrate.filter(item =>
+            scope === 'full' || scope === 'enrichment-only'
+            || (scope === 'images-only' && !storedImages(item).some(img => img.enrichment_json))).length;
+
         return {
-            summary: { adding: payload.ids.length, updating: 0, removing: 0 },
-            details: { adding: payload.ids, updating: [], removing: [] },
-            warnings: [],
+            scope,
+            summary: {
+                adding: adding.length,
+                updating: updating.length,
+                unchanged: unchanged.length,
+                removing: removing.length
+            },
+            details: { adding, updating, unchanged, removing },
+            warnings,
             costEstimate: {
-                r2StorageMB: payload.ids.length * 0.5, // Approx 500KB per image
-                vectorizeOps: 0,
-                aiCalls: 0,
-                tursoWrites: payload.ids.length,
-                estimatedDuration: payload.ids.length * 2000 // 2s per item
+                images: imageCount,
+                sourceBytes,
+                sourceSize: formatBytes(sourceBytes),
+                // Upper bound: converted WebP is never kept when larger than the source
+                r2StorageMB: Math.round((sourceBytes / (1024 * 1024)) * 100) / 100,
+                imageCopies,
+                vectorizeOps: isMoodboard ? embeddedCount : 0,
+                aiCalls: isMoodboard ? productCount + embeddedCount : 0, // enrichment + embeddings
+                tursoWrites: toMigrate.length + (isMoodboard ? embeddedCount : 0) + removing.length,
+                r2Removals: removing.reduce((sum, plan) => sum + plan.r2Keys.length, 0) + staleKeys,
+                vectorRemovals: removing.reduce((sum, plan) => sum + plan.vectorIds.length, 0) + staleVectors,
+                estimatedDuration: Math.round(
+                    sourceBytes / ESTIMATE.downloadBytesPerMs
+                    + imageCount * ESTIMATE.convertMsPerImage
+                    + productCount * ESTIMATE.enrichmentMsPerProduct
+                )
             }
         };
     }
@@ -79,65 +589,315 @@ export class MigrationService {
         if (!job) return;
 
         job.status = 'processing';
+        await this.persist(job);
+        JobEvents.log(jobId, 'info', `Started ${job.type} job with ${this.pendingItems(job).length} pending items`);
 
         try {
-            if (job.type === 'designers') {
+            if (job.scope === 'embeddings-only') {
+                await this.embedMoodboard(job);
+            } else if (job.scope === 'enrichment-only') {
+                await this.enrichMoodboard(job);
+            } else if (job.type === 'designers') {
                 await this.migrateDesigners(job);
+            } else if (job.type === 'spotlight') {
+                await this.migrateSpotlight(job);
             } else {
                 await this.migrateMoodboard(job);
             }
 
-            if ((job.status as string) !== 'cancelled') {
+            if (pausing.has(jobId) && job.status === 'processing' && this.pendingItems(job).length > 0) {
+                job.status = 'paused';
+                job.pausedAt = new Date().toISOString();
+            } else if ((job.status as string) !== 'cancelled') {
                 job.status = 'completed';
             }
         } catch (error: any) {
             console.error(`Job ${jobId} failed:`, error);
+            JobEvents.log(jobId, 'error', `Job failed: ${error.message}`);
             job.status = 'failed';
             job.errors.push(error.message);
         } finally {
-            job.endTime = new Date().toISOString();
+            pausing.delete(jobId);
+            if (job.status !== 'paused') job.endTime = new Date().toISOString();
+            job.progress.current = null;
+            await JobStore.save(job);
+            await this.advanceWatermark(job);
+            if (job.status !== 'paused') {
+                await this.writeBack(job).catch(err => console.error(`Failed to write job ${jobId} back to Notion:`, err));
+            }
+            SnapshotService.release(jobId);
+            SnapshotService.prune().catch(err => console.error('Failed to prune job snapshots:', err));
+            jobs.delete(jobId);
+            activatedAt.delete(jobId);
+            JobEvents.log(jobId, 'info', job.status === 'paused'
+                ? `Job paused: ${job.progress.completed} completed, ${this.pendingItems(job).length} pending`
+                : `Job ${job.status}: ${job.progress.completed} completed, ${job.progress.failed} failed`);
+            JobEvents.publish(jobId, 'end', job);
         }
     }
 
-    private static async migrateDesigners(job: Job) {
-        const fullList = await NotionService.getDesigners();
-        const designersToMigrate = fullList.filter((d: Designer) => job.items.includes(d.id));
+    /**
+     * Move the sync watermark only when every item made it, so failed items
+     * are picked up again by the next sync
+     */
+    private static async advanceWatermark(job: Job) {
+        if (!job.sync || job.status !== 'completed' || job.progress.failed > 0) return;
 
-        for (const designer of designersToMigrate) {
-            if (job.status === 'cancelled') break;
+        try {
+            await SyncStore.set(job.type, job.sync.watermark, job.id);
+            JobEvents.log(job.id, 'info', `Sync watermark for ${job.type} moved to ${job.sync.watermark}`);
+        } catch (err: any) {
+            console.error(`Failed to store sync watermark for job ${job.id}:`, err);
+        }
+    }
+
+    /**
+     * Write the outcome of each item to its Notion page, for content types with
+     * write-back enabled: migrated items get their date and live URL, failed ones
+     * their error and the re-sync flag. Failed writes are logged, not fatal.
+     */
+    private static async writeBack(job: Job) {
+        if (!NotionService.isWriteBackEnabled(job.type)) return;
+
+        const updates = new Map<string, WriteBackValues>();
+        const migratedAt = job.endTime ?? new Date().toISOString();
+        for (const result of job.results) {
+            if (result?.status === 'success') {
+                updates.set(result.id, { migratedAt, lastError: null, needsResync: false });
+            } else if (result?.status === 'removed') {
+                updates.set(result.id, { liveUrl: null, lastError: null, needsResync: false });
+            }
+        }
+        for (const failure of job.errors) {
+            if (failure?.id) updates.set(failure.id, { lastError: failure.error, needsResync: true });
+        }
+        if (updates.size === 0) return;
 
-            job.progress.current = `Processing ${designer.name}`;
+        const migrated = [...updates].filter(([, values]) => values.migratedAt).map(([id]) => id);
+        const rows = await TursoService.getByNotionIds(migrated, CONTENT_TABLES[job.type]);
+        for (const id of migrated) {
+            const slug = rows[id]?.slug;
+            if (slug) updates.get(id)!.liveUrl = NotionService.liveUrl(job.type, slug);
+        }
 
+        const outcomes = await mapWithConcurrency([...updates], WRITE_BACK_CONCURRENCY, async ([id, values]) => {
             try {
-                const contentHash = generateContentHash(designer);
-                const slug = this.generateSlug(designer.name);
+                await NotionService.writeBack(job.type, id, values);
+                return true;
+            } catch (err: any) {
+                console.error(`Failed to write migration status back to Notion page ${id}:`, err);
+                return false;
+            }
+        });
+
+        const failed = outcomes.filter(ok => !ok).length;
+        JobEvents.log(job.id, failed > 0 ? 'warn' : 'info',
+            `Wrote migration status back to ${outcomes.length - failed} Notion page(s)${failed > 0 ? `, ${failed} failed` : ''}`);
+    }
+
+    /**
+     * Make the job active in this process, after every job already active
+     */
+    private static activate(job: Job) {
+        jobs.set(job.id, job);
+        activatedAt.set(job.id, ++activations);
+    }
+
+    /**
+     * The earlier active job that still has the item pending on the same
+     * Turso table, if any. Later jobs never hold an item against earlier
+     * ones, so jobs queued behind each other can't deadlock.
+     */
+    private static itemHolder(job: Job, id: string): string | null {
+        const order = activatedAt.get(job.id) ?? Infinity;
+        for (const other of jobs.values()) {
+            if (other.id === job.id || CONTENT_TABLES[other.type] !== CONTENT_TABLES[job.type]) continue;
+            if ((activatedAt.get(other.id) ?? Infinity) > order) continue;
+            if (this.pendingItems(other).includes(id)) return other.id;
+        }
+        return null;
+    }
+
+    /**
+     * With the 'queue' policy, wait until no earlier job holds the item (or
+     * this job is stopping); otherwise return the holder straight away
+     * @returns the ID of the job holding the item, or null once it is free
+     */
+    private static async waitForItem(job: Job, id: string, name: string): Promise<string | null> {
+        let holder = this.itemHolder(job, id);
+        if (!holder || job.onLocked !== 'queue') return holder;
+
+        JobEvents.log(job.id, 'info', `${name} is pending in job ${holder}; waiting for it`);
+        while (holder && !this.isStopping(job)) {
+            await sleep(ITEM_LOCK_POLL_MS);
+            holder = this.itemHolder(job, id);
+        }
+        return null;
+    }
+
+    /**
+     * Record an item as skipped without processing it
+     */
+    private static skipItem(job: Job, id: string, name: string, reason: string) {
+        const report = this.startReport(job, id, name);
+        this.finishReport(report, 'skipped');
+        job.progress.completed++;
+        job.results.push({ id, status: 'skipped', reason });
+        this.publishItem(job, report);
+    }
+
+    /**
+     * Items that have neither a result nor an error recorded yet
+     */
+    private static pendingItems(job: Job): string[] {
+        const processed = new Set([...job.results, ...job.errors].map(entry => entry?.id).filter(Boolean));
+        return job.items.filter(id => !processed.has(id));
+    }
+
+    /**
+     * Record items that are live with an unchanged content hash as skipped,
+     * unless the job is forced. Images-only jobs rely on the images' source
+     * hashes instead.
+     * @returns the items that still need migrating
+     */
+    private static async skipUnchanged<T extends NotionItem>(job: Job, items: T[]): Promise<T[]> {
+        if (job.force || job.scope === 'images-only' || items.length === 0) return items;
+
+        const rows = await TursoService.getByNotionIds(items.map(item => item.id), CONTENT_TABLES[job.type]);
+        const changed: T[] = [];
+
+        for (const item of items) {
+            const row = rows[item.id];
+            const live = row && (job.type === 'spotlight' || row.status === 'Published');
+            if (!live || row.content_hash !== generateContentHash(item)) {
+                changed.push(item);
+                continue;
+            }
+
+            this.skipItem(job, item.id, item.name, 'Unchanged since the last migration');
+        }
+
+        const skipped = items.length - changed.length;
+        if (skipped > 0) {
+            JobEvents.log(job.id, 'info', `Skipping ${skipped} unchanged item(s), use force to migrate them anyway`);
+            this.persist(job);
+        }
+        return changed;
+    }
 
-                // 1. Handle Image
-                let coverKey = null;
-                if (designer.coverUrl) {
-                    // Use human-readable slug for naming
-                    coverKey = `studios/${slug}.webp`;
+    private static async migrateDesigners(job: Job) {
+        const notionItems = await this.fetchJobItems(job) as Designer[];
+        await this.removeUnpublished(job, notionItems);
+
+        const pending = this.pendingItems(job);
+        const designersToMigrate = await this.skipUnchanged(job, notionItems.filter(d => pending.includes(d.id)));
+
+        await this.runPool(job, designersToMigrate, (designer, report) => this.migrateDesigner(job, designer, report));
+    }
+
+    /**
+     * Migrate one designer: cover image and `studios` row, or only one of them
+     * when the job is scoped to metadata or images
+     */
+    private static async migrateDesigner(job: Job, designer: Designer, report: ItemReport) {
+        const scope = job.scope ?? 'full';
+        // Slug reserved for this item until its row is written
+        let reservedSlug: string | null = null;
+        try {
+            const existing = (await this.runStep(job, report, 'turso',
+                () => TursoService.getByNotionIds([designer.id], 'designer'), { label: 'row' }))[designer.id];
+            if (!existing && scope !== 'full') {
+                throw new Error(`Not migrated yet; a ${scope} migration needs an existing row, run a full migration first`);
+            }
+
+            const contentHash = generateContentHash(designer);
+            // Images-only jobs keep the slug; renaming is a metadata change
+            const { slug, previous: previousSlug } = scope === 'images-only'
+                ? { slug: existing.slug as string, previous: existing.slug as string }
+                : await this.runStep(job, report, 'turso',
+                    () => SlugService.assign('studios', designer.notionId, designer.name), { label: 'slug' });
+            if (scope !== 'images-only') reservedSlug = slug;
+
+            // Use human-readable slug for naming
+            const coverKey = designer.coverUrl && scope !== 'metadata-only' ? `studios/${slug}.webp` : null;
+            // The previous cover is left behind when the new one goes under another key (the slug changed)
+            const previousCoverKey = this.indexObjectKey(existing?.cover);
+            const staleCoverKey = coverKey && previousCoverKey !== coverKey ? previousCoverKey : null;
 
-                    // Always convert/optimize
-                    const conversion = await ImageService.convert(designer.coverUrl);
+            // 0. Keep what this run overwrites so the job can be rolled back
+            await this.runStep(job, report, 'snapshot', async () => {
+                await SnapshotService.captureRow(job.id, 'studios', designer.notionId);
+            });
+
+            // 1. Handle Image
+            let coverSourceHash = null;
+            if (designer.coverUrl && coverKey) {
+                const source = await this.downloadSource(job, report, 'cover', designer.coverUrl,
+                    async () => (await NotionService.getDesigner(designer.id)).coverUrl);
+                coverSourceHash = generateSourceHash(source);
+
+                if (!job.force && existing?.cover === coverKey && existing.cover_source_hash === coverSourceHash) {
+                    // Same bytes as the cover already live under this key
+                    report.images.push({ index: 0, bytesBefore: source.length, bytesAfter: 0, ssim: 1, strategy: 'unchanged', r2Key: coverKey, unchanged: true });
+                } else {
+                    const conversion = await this.runStep(job, report, 'convert', () => ImageService.convert(source), { label: 'cover' });
 
                     // Upload
-                    await StorageService.upload(coverKey, conversion.buffer, 'image/webp');
+                    await this.runStep(job, report, 'snapshot', () => SnapshotService.captureObject(job.id, coverKey), { label: 'cover' });
+                    await this.runStep(job, report, 'upload', () => StorageService.upload(coverKey, conversion.buffer, 'image/webp'), { label: 'cover' });
+
+                    report.images.push({
+                        index: 0,
+                        bytesBefore: source.length,
+                        bytesAfter: conversion.size,
+                        ssim: conversion.ssim,
+                        strategy: conversion.strategy,
+                        r2Key: coverKey
+                    });
                 }
+                report.r2Keys.push(coverKey);
+            }
 
-                // 2. Insert into Turso
-                await turso.execute({
+            // 2. Insert into Turso
+            const now = new Date().toISOString();
+            if (scope === 'images-only') {
+                // Without a cover in Notion the stored one is kept
+                if (coverKey) {
+                    await this.runStep(job, report, 'turso', () => turso.execute({
+                        sql: 'UPDATE studios SET cover = ?, cover_source_hash = ?, updated_at = ? WHERE notion_id = ?',
+                        args: [coverKey, coverSourceHash, now, designer.notionId]
+                    }));
+                }
+            } else if (scope === 'metadata-only') {
+                // The content hash also covers the cover, so it is left for a full migration
+                await this.runStep(job, report, 'turso', () => turso.execute({
+                    sql: `
+                        UPDATE studios SET
+                            status = ?, name = ?, slug = ?, city = ?,
+                            website = ?, instagram = ?, email = ?, updated_at = ?
+                        WHERE notion_id = ?
+                    `,
+                    args: [
+                        'Published', designer.name, slug, designer.city,
+                        designer.website, designer.instagram, designer.email, now,
+                        designer.notionId
+                    ]
+                }));
+            } else {
+                await this.runStep(job, report, 'turso', () => turso.execute({
                     sql: `
                         INSERT INTO studios (
                             id, notion_id, slug, status, name, 
-                            city, cover, website, instagram, email, 
+                            city, cover, cover_source_hash, website, instagram, email, 
                             content_hash, created_at, updated_at
-                        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
                         ON CONFLICT(notion_id) DO UPDATE SET
+                            status=excluded.status,
                             name=excluded.name,
                             slug=excluded.slug,
                             city=excluded.city,
                             cover=excluded.cover,
+                            cover_source_hash=excluded.cover_source_hash,
                             website=excluded.website,
                             instagram=excluded.instagram,
                             email=excluded.email,
@@ -152,131 +912,946 @@ export class MigrationService {
                         designer.name,
                         designer.city,
                         coverKey,
+                        coverSourceHash,
                         designer.website,
                         designer.instagram,
                         designer.email,
                         contentHash,
-                        new Date().toISOString(), // created_at
-                        new Date().toISOString()  // updated_at
+                        now, // created_at
+                        now  // updated_at
                     ]
-                });
-
-                job.progress.completed++;
-                job.results.push({ id: designer.id, status: 'success' });
+                }));
+            }
+            await this.recordSlugChange(job, report, 'studios', designer.notionId, previousSlug, slug);
 
-            } catch (err: any) {
-                console.error(`Failed to migrate ${designer.name}:`, err);
-                job.progress.failed++;
-                job.errors.push({ id: designer.id, error: err.message });
+            // 3. Only once the row points at the new cover
+            if (staleCoverKey) {
+                await this.runStep(job, report, 'remove', async () => {
+                    await SnapshotService.captureObject(job.id, staleCoverKey);
+                    await StorageService.delete(staleCoverKey);
+                }, { label: 'stale cover' });
             }
+
+            report.status = 'success';
+            job.progress.completed++;
+            job.results.push({ id: designer.id, status: 'success' });
+
+        } catch (err: any) {
+            console.error(`Failed to migrate ${designer.name}:`, err);
+            report.status = 'failed';
+            this.recordFailure(job, designer.id, err);
+        } finally {
+            if (reservedSlug) SlugService.release('studios', designer.notionId, reservedSlug);
         }
     }
 
+    /**
+     * R2 key of a stored cover; rows from the original scripts hold its public URL.
+     * Null when there is no cover or it lives outside the index bucket.
+     */
+    private static indexObjectKey(cover: string | null | undefined): string | null {
+        if (!cover) return null;
+        if (!/^https?:\/\//.test(cover)) return cover;
+
+        const publicUrl = config.r2.publicUrlIndex?.replace(/\/$/, '');
+        return publicUrl && cover.startsWith(`${publicUrl}/`) ? cover.slice(publicUrl.length + 1) : null;
+    }
+
     private static async migrateMoodboard(job: Job) {
-        const fullList = await NotionService.getMoodboard();
-        const productsToMigrate = fullList.filter((p: MoodboardProduct) => job.items.includes(p.id));
+        const notionItems = await this.fetchJobItems(job) as MoodboardProduct[];
+        await this.removeUnpublished(job, notionItems);
 
-        for (const product of productsToMigrate) {
-            if (job.status === 'cancelled') break;
+        const pending = this.pendingItems(job);
+        const productsToMigrate = await this.skipUnchanged(job, notionItems.filter(p => pending.includes(p.id)));
 
-            job.progress.current = `Processing ${product.name}`;
+        await this.runPool(job, productsToMigrate, (product, report) => this.migrateProduct(job, product, report));
+    }
 
-            try {
-                // 1. Semantic Enrichment
-                const enrichmentRes = await EnrichmentService.generate(product);
-                const enrichedData = enrichmentRes.enrichment;
+    /**
+     * Migrate one product: enrichment, `products` row, images and their
+     * embeddings. Metadata-only jobs write just the row; images-only jobs
+     * keep the row and slug and reuse the stored enrichment.
+     */
+    private static async migrateProduct(job: Job, product: MoodboardProduct, report: ItemReport) {
+        const scope = job.scope ?? 'full';
+        const warnings: any[] = [];
+        let reservedSlug: string | null = null;
 
-                const contentHash = generateContentHash(product);
-                const productSlug = this.generateSlug(product.name);
+        try {
+            const row = scope === 'full'
+                ? null
+                : (await this.runStep(job, report, 'turso',
+                    () => TursoService.getByNotionIds([product.id], 'moodboard'), { label: 'row' }))[product.id];
+            if (scope !== 'full' && !row) {
+                throw new Error(`Not migrated yet; a ${scope} migration needs an existing row, run a full migration first`);
+            }
 
-                // 2. Insert/Update Product in Turso
-                await turso.execute({
+            const contentHash = generateContentHash(product);
+            const { slug: productSlug, previous: previousSlug } = scope === 'images-only'
+                ? { slug: row!.slug as string, previous: row!.slug as string }
+                : await this.runStep(job, report, 'turso',
+                    () => SlugService.assign('products', product.notionId, product.name), { label: 'slug' });
+            if (scope !== 'images-only') reservedSlug = productSlug;
+
+            const existingImages = scope === 'metadata-only'
+                ? []
+                : await this.runStep(job, report, 'turso',
+                    async () => (await TursoService.getProductImages([product.id]))[product.id] || [], { label: 'images' });
+            const plan = planImageSet(product.id, productSlug, product.images, existingImages);
+
+            // 1. Semantic Enrichment, only needed for the images' embedding text
+            const stored = existingImages.find(img => img.enrichment_json)?.enrichment_json;
+            const enrichedData = scope === 'metadata-only'
+                ? null
+                : scope === 'images-only' && stored
+                    ? JSON.parse(stored)
+                    : (await this.runStep(job, report, 'enrichment', () => EnrichmentService.generate(product))).enrichment;
+
+            // Keep what this run overwrites so the job can be rolled back (vectors are
+            // captured in embedImage, and image objects right before they are written)
+            await this.runStep(job, report, 'snapshot', async () => {
+                if (scope !== 'images-only') await SnapshotService.captureRow(job.id, 'products', product.notionId);
+                if (scope === 'metadata-only') return;
+                await SnapshotService.captureProductImages(job.id, product.id);
+                for (const img of plan.images) {
+                    await SnapshotService.captureRow(job.id, 'product_images', img.id);
+                }
+                for (const key of plan.stale.r2Keys) {
+                    await SnapshotService.captureObject(job.id, key, true);
+                }
+                if (VectorizeService.isConfigured()) await SnapshotService.captureVectors(job.id, plan.stale.vectorIds);
+            });
+
+            // 2. Insert/Update Product in Turso
+            if (scope !== 'images-only') {
+                await this.runStep(job, report, 'turso', () => turso.execute({
                     sql: `
                         INSERT INTO products (
                             id, notion_id, slug, status, name, 
-                            designer, year, link, city, content_hash, created_at, updated_at
-                        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                            designer, year, link, city, created_at, updated_at
+                        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
                         ON CONFLICT(notion_id) DO UPDATE SET
+                            status=excluded.status,
                             name=excluded.name, slug=excluded.slug, designer=excluded.designer,
                             year=excluded.year, link=excluded.link, city=excluded.city, 
-                            content_hash=excluded.content_hash,
                             updated_at=excluded.updated_at
                     `,
                     args: [
                         product.id, product.notionId, productSlug, 'Published', product.name,
                         product.designer, product.year, product.link, product.city,
-                        contentHash,
                         new Date().toISOString(), new Date().toISOString()
                     ]
+                }));
+            }
+            await this.recordSlugChange(job, report, 'products', product.notionId, previousSlug, productSlug);
+
+            if (scope !== 'metadata-only') await this.migrateProductImages(job, report, product, plan, existingImages, enrichedData, warnings);
+
+            // 5. Only now is the product up to date; with a failed embedding the
+            // next run must not skip it as unchanged. Partial scopes leave it to a full migration.
+            if (scope === 'full' && warnings.length === 0) {
+                await this.runStep(job, report, 'turso', () => turso.execute({
+                    sql: 'UPDATE products SET content_hash = ? WHERE notion_id = ?',
+                    args: [contentHash, product.notionId]
+                }), { label: 'content hash' });
+            }
+
+            report.images.sort((a, b) => a.index - b.index);
+            report.status = 'success';
+            job.progress.completed++;
+            job.results.push({
+                id: product.id,
+                status: 'success',
+                ...(plan.stale.rowIds.length > 0 && { removedImages: plan.stale.rowIds.length }),
+                ...(warnings.length > 0 && { warnings })
+            });
+
+        } catch (err: any) {
+            console.error(`Failed to migrate moodboard product ${product.name}:`, err);
+            report.status = 'failed';
+            this.recordFailure(job, product.id, err);
+        } finally {
+            if (reservedSlug) SlugService.release('products', product.notionId, reservedSlug);
+        }
+    }
+
+    /**
+     * Convert, upload and embed a product's images per its image set plan, then
+     * drop the ones it no longer has. Failed embeddings are added to `warnings`.
+     */
+    private static async migrateProductImages(
+        job: Job,
+        report: ItemReport,
+        product: MoodboardProduct,
+        plan: ImageSetPlan,
+        existingImages: Array<Record<string, any>>,
+        enrichedData: any,
+        warnings: any[]
+    ) {
+        // 3. Process Images
+        const existingById = new Map(existingImages.map(row => [row.id as string, row]));
+        const indexed = job.force ? new Set<string>() : await this.indexedVectorIds(plan.images.map(img => img.id));
+        const staged = await this.stageMovedImages(job, report, plan);
+        try {
+            await mapWithConcurrency(product.images, config.migration.imageConcurrency, async (img, i) => {
+                const { id: imageId, r2Key, movedFrom } = plan.images[i];
+                const existing = existingById.get(imageId);
+
+                const label = `image ${i}`;
+
+                // Images that only changed position are copied, not re-encoded
+                const copyFrom = movedFrom && staged.get(movedFrom.r2Key);
+                let imageReport: ImageReport;
+                let sourceHash: string | null;
+                let sourceChanged = true;
+                if (copyFrom) {
+                    await this.runStep(job, report, 'snapshot', () => SnapshotService.captureObject(job.id, r2Key, true), { label });
+                    await this.runStep(job, report, 'upload', () => StorageService.copy(copyFrom, r2Key, true), { label });
+                    imageReport = { index: i, bytesBefore: 0, bytesAfter: 0, ssim: 1, strategy: 'copy', r2Key, movedFrom: movedFrom.position };
+                    sourceHash = movedFrom.sourceHash;
+                    sourceChanged = false;
+                } else {
+                    const source = await this.downloadSource(job, report, label, img.url,
+                        async () => (await NotionService.getProduct(product.id)).images[i]?.url);
+                    sourceHash = generateSourceHash(source);
+
+                    if (!job.force && existing?.r2_key === r2Key && existing.source_hash === sourceHash) {
+                        // Same bytes as the image already live under this key
+                        imageReport = { index: i, bytesBefore: source.length, bytesAfter: 0, ssim: 1, strategy: 'unchanged', r2Key, unchanged: true };
+                        sourceChanged = false;
+                    } else {
+                        // Convert & Optimise
+                        const conversion = await this.runStep(job, report, 'convert', () => ImageService.convert(source), { label });
+
+                        // Upload to Moodboard bucket (R2_BUCKET_NAME2)
+                        await this.runStep(job, report, 'snapshot', () => SnapshotService.captureObject(job.id, r2Key, true), { label });
+                        await this.runStep(job, report, 'upload', () => StorageService.upload(r2Key, conversion.buffer, 'image/webp', true), { label });
+
+                        imageReport = {
+                            index: i,
+                            bytesBefore: source.length,
+                            bytesAfter: conversion.size,
+                            ssim: conversion.ssim,
+                            strategy: conversion.strategy,
+                            r2Key
+                        };
+                    }
+                }
+                report.r2Keys.push(r2Key);
+                report.images.push(imageReport);
+
+                // Embedding Text
+                const embeddingText = buildEmbeddingText(enrichedData, product, i, product.images.length);
+                const embedded: EmbeddedImage = {
+                    id: imageId,
+                    productId: product.id,
+                    text: embeddingText,
+                    enrichmentVersion: enrichedData.enrichment_version || ENRICHMENT_VERSION,
+                    enrichmentSource: enrichedData.enrichment_source || 'unknown'
+                };
+
+                // Vectorize
+                // Not fatal: the image is live, it just isn't searchable yet
+                let embedError: string | null = null;
+                try {
+                    if (sourceChanged || existing?.embedding_text !== embeddingText || !indexed.has(imageId)) {
+                        await this.embedImage(job, report, { ...embedded, r2Key }, label);
+                    }
+                    imageReport.vectorId = imageId;
+                } catch (vecErr: any) {
+                    console.error(`Vectorize failed for ${product.name} image ${i}:`, vecErr);
+                    JobEvents.log(job.id, 'warn', `${product.name}: image ${i} is not searchable, embedding failed: ${vecErr.message}`);
+                    warnings.push({ image: i, step: 'embed', kind: classifyError(vecErr), error: vecErr.message });
+                    embedError = vecErr.message;
+                }
+
+                // Save Image Entry in Turso
+                await this.runStep(job, report, 'turso', () => turso.execute({
+                    sql: `
+                        INSERT INTO product_images (
+                            id, product_id, image_url, r2_key, position, 
+                            original_notion_url, embedding_text, enrichment_json,
+                            enrichment_version, enrichment_source, source_hash, created_at
+                        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                        ON CONFLICT(id) DO UPDATE SET
+                            image_url=excluded.image_url, r2_key=excluded.r2_key,
+                            position=excluded.position, original_notion_url=excluded.original_notion_url,
+                            embedding_text=excluded.embedding_text, source_hash=excluded.source_hash,
+                            enrichment_json=excluded.enrichment_json, updated_at=datetime('now')
+                    `,
+                    args: [
+                        imageId, product.id, `${config.r2.publicUrlMoodboard}/${r2Key}`, r2Key, i,
+                        img.url, embeddingText, JSON.stringify(enrichedData),
+                        enrichedData.enrichment_version || ENRICHMENT_VERSION,
+                        enrichedData.enrichment_source || 'unknown',
+                        sourceHash,
+                        new Date().toISOString()
+                    ]
+                }));
+
+                // After the image row, which the embedding row references
+                await this.runStep(job, report, 'turso',
+                    () => ProductEmbeddingService.record(job.id, embedded, embedError), { label: `${label} embedding` });
+            });
+        } finally {
+            await this.releaseStagedImages(job, staged);
+        }
+
+        // 4. Drop images the product no longer has
+        await this.removeStaleImages(job, report, product, plan);
+    }
+
+    /**
+     * Which of these vectors exist in Vectorize. On lookup failure every image
+     * is treated as missing, so it is embedded again.
+     */
+    private static async indexedVectorIds(ids: string[]): Promise<Set<string>> {
+        try {
+            return new Set((await VectorizeService.getByIds(ids)).map(vector => vector.id));
+        } catch (err: any) {
+            console.warn('Could not look up existing vectors:', err.message);
+            return new Set();
+        }
+    }
+
+    /**
+     * Find where each moved image can be copied from. Sources that this run
+     * overwrites (e.g. two swapped images) are first copied under staging/.
+     * @returns source key → key to copy from; moved images missing from R2 are left out
+     */
+    private static async stageMovedImages(job: Job, report: ItemReport, plan: ImageSetPlan) {
+        const targets = new Set(plan.images.map(img => img.r2Key));
+        const sources = new Map<string, string>();
+
+        const moved = plan.images.filter(img => img.movedFrom).map(img => img.movedFrom!.r2Key);
+        if (moved.length === 0) return sources;
+
+        await this.runStep(job, report, 'upload', async () => {
+            for (const key of new Set(moved)) {
+                if (sources.has(key) || !(await StorageService.exists(key, true))) continue;
+
+                if (targets.has(key)) {
+                    const stagingKey = `staging/${job.id}/${key}`;
+                    await StorageService.copy(key, stagingKey, true);
+                    sources.set(key, stagingKey);
+                } else {
+                    sources.set(key, key);
+                }
+            }
+        }, { label: 'stage moved images' });
+
+        return sources;
+    }
+
+    private static async releaseStagedImages(job: Job, sources: Map<string, string>) {
+        for (const [key, from] of sources) {
+            if (from === key) continue;
+            try {
+                await StorageService.delete(from, true);
+            } catch (err: any) {
+                console.warn(`Failed to delete staged image ${from} for job ${job.id}:`, err.message);
+            }
+        }
+    }
+
+    /**
+     * Delete the rows, objects and vectors of images a product no longer has,
+     * vectors first so search stops returning them
+     */
+    private static async removeStaleImages(job: Job, report: ItemReport, product: MoodboardProduct, plan: ImageSetPlan) {
+        const { rowIds, r2Keys, vectorIds } = plan.stale;
+        if (rowIds.length === 0 && r2Keys.length === 0) return;
+
+        await this.runStep(job, report, 'remove', async () => {
+            if (VectorizeService.isConfigured()) await VectorizeService.deleteByIds(vectorIds);
+            for (const key of r2Keys) {
+                await StorageService.delete(key, true);
+            }
+            await ProductEmbeddingService.remove(job.id, rowIds);
+            for (const id of rowIds) {
+                await turso.execute({ sql: 'DELETE FROM product_images WHERE id = ?', args: [id] });
+            }
+        }, { label: 'stale images' });
+
+        const moved = plan.images.filter(img => img.movedFrom).length;
+        JobEvents.log(job.id, 'info', `${product.name}: removed ${rowIds.length} stale image(s) and ${r2Keys.length} R2 object(s)${moved ? `, ${moved} image(s) moved` : ''}`);
+    }
+
+    private static async embedImage(
+        job: Job,
+        report: ItemReport,
+        image: { id: string; productId: string; r2Key: string; text: string },
+        label: string
+    ) {
+        const embedding = await this.runStep(job, report, 'embed', () => VectorizeService.generateEmbedding(image.text), { label });
+        await this.runStep(job, report, 'embed', async () => {
+            await SnapshotService.captureVectors(job.id, [image.id]);
+            return VectorizeService.upsert(image.id, embedding, {
+                product_id: image.productId,
+                folder: "moodboard/*",
+                key: image.r2Key,
+                url: `${config.r2.publicUrlMoodboard}/${image.r2Key}`
+            });
+        }, { label });
+        report.vectorIds.push(image.id);
+    }
+
+    /**
+     * Embeddings-only job: regenerate vectors from the stored embedding text.
+     * Every image is recorded in product_embeddings, failed ones too.
+     */
+    private static async embedMoodboard(job: Job) {
+        const { products, imageRows } = await this.loadMigratedProducts(job);
+
+        await this.runPool(job, products, async ({ id, name, row }, report) => {
+            try {
+                const images = (imageRows[row.id] || []).filter(img => img.embedding_text);
+                await mapWithConcurrency(images, config.migration.imageConcurrency, async img => {
+                    const embedded: EmbeddedImage = {
+                        id: img.id,
+                        productId: row.id,
+                        text: img.embedding_text,
+                        enrichmentVersion: img.enrichment_version ?? null,
+                        enrichmentSource: img.enrichment_source ?? null
+                    };
+                    try {
+                        await this.embedImage(job, report, { ...embedded, r2Key: img.r2_key }, `image ${img.position}`);
+                    } catch (err: any) {
+                        await ProductEmbeddingService.record(job.id, embedded, err.message)
+                            .catch(recordErr => console.error(`Failed to record embedding failure of ${img.id}:`, recordErr));
+                        throw err;
+                    }
+                    await this.runStep(job, report, 'turso',
+                        () => ProductEmbeddingService.record(job.id, embedded), { label: `image ${img.position} embedding` });
                 });
 
-                // 3. Process Images
-                for (let i = 0; i < product.images.length; i++) {
-                    const img = product.images[i];
-                    const imageId = `${product.id}_${i}`;
-                    const r2Key = `moodboard/${productSlug}/${i}.webp`;
+                report.status = 'success';
+                job.progress.completed++;
+                job.results.push({ id, status: 'success', embedded: images.length });
+            } catch (err: any) {
+                console.error(`Failed to re-embed ${name}:`, err);
+                report.status = 'failed';
+                this.recordFailure(job, id, err);
+            }
+        });
+    }
+
+    /**
+     * Enrichment-only job: re-run enrichment on the products' Turso rows and
+     * rebuild each image's embedding text, re-embedding where it changed.
+     * Images are not touched. Products already enriched by the current
+     * version are skipped unless forced.
+     */
+    private static async enrichMoodboard(job: Job) {
+        const { products, imageRows } = await this.loadMigratedProducts(job);
 
-                    // Convert & Optimise
-                    const conversion = await ImageService.convert(img.url);
+        const outdated = products.filter(({ id, name, row }) => {
+            if (job.force || !this.isEnrichmentCurrent(imageRows[row.id] || [])) return true;
+            this.skipItem(job, id, name, `Already enriched by version ${ENRICHMENT_VERSION}`);
+            return false;
+        });
+        if (outdated.length < products.length) this.persist(job);
 
-                    // Upload to Moodboard bucket (R2_BUCKET_NAME2)
-                    // We need to pass bucket to StorageService or handle it there.
-                    // For now, let's assume StorageService.uploadMoodboard helper
-                    await StorageService.upload(r2Key, conversion.buffer, 'image/webp', true);
+        await this.runPool(job, outdated, async ({ id, name, row }, report) => {
+            const warnings: any[] = [];
+            try {
+                const images = imageRows[row.id] || [];
+                const productData = {
+                    name: row.name, designer: row.designer, year: row.year,
+                    client: row.client, link: row.link, city: row.city
+                };
+                const { enrichment } = await this.runStep(job, report, 'enrichment',
+                    () => EnrichmentService.generate(productData, job.force));
+                const indexed = job.force ? new Set<string>() : await this.indexedVectorIds(images.map(img => img.id));
 
-                    // Embedding Text
-                    const embeddingText = buildEmbeddingText(enrichedData, product, i, product.images.length);
+                await mapWithConcurrency(images, config.migration.imageConcurrency, async img => {
+                    const label = `image ${img.position}`;
+                    const embedded: EmbeddedImage = {
+                        id: img.id,
+                        productId: row.id,
+                        text: buildEmbeddingText(enrichment, productData, Number(img.position), images.length),
+                        enrichmentVersion: enrichment.enrichment_version || ENRICHMENT_VERSION,
+                        enrichmentSource: enrichment.enrichment_source || 'unknown'
+                    };
 
-                    // Vectorize
+                    // Not fatal: the stored text is still updated and the embedding marked for retry
+                    let embedError: string | null = null;
                     try {
-                        const embedding = await VectorizeService.generateEmbedding(embeddingText);
-                        await VectorizeService.upsert(imageId, embedding, {
-                            product_id: product.id,
-                            folder: "moodboard/*",
-                            key: r2Key,
-                            url: `${config.r2.publicUrlMoodboard}/${r2Key}`
-                        });
-                    } catch (vecErr) {
-                        console.error(`Vectorize failed for ${product.name} image ${i}:`, vecErr);
+                        if (embedded.text !== img.embedding_text || !indexed.has(img.id)) {
+                            await this.embedImage(job, report, { ...embedded, r2Key: img.r2_key }, label);
+                        }
+                    } catch (vecErr: any) {
+                        console.error(`Vectorize failed for ${name} ${label}:`, vecErr);
+                        JobEvents.log(job.id, 'warn', `${name}: ${label} is not searchable, embedding failed: ${vecErr.message}`);
+                        warnings.push({ image: Number(img.position), step: 'embed', kind: classifyError(vecErr), error: vecErr.message });
+                        embedError = vecErr.message;
                     }
 
-                    // Save Image Entry in Turso
-                    await turso.execute({
-                        sql: `
-                            INSERT INTO product_images (
-                                id, product_id, image_url, r2_key, position, 
-                                original_notion_url, embedding_text, enrichment_json,
-                                enrichment_version, enrichment_source, created_at
-                            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-                            ON CONFLICT(id) DO UPDATE SET
-                                image_url=excluded.image_url, r2_key=excluded.r2_key,
-                                position=excluded.position, embedding_text=excluded.embedding_text,
-                                enrichment_json=excluded.enrichment_json, updated_at=datetime('now')
-                        `,
-                        args: [
-                            imageId, product.id, `${config.r2.publicUrlMoodboard}/${r2Key}`, r2Key, i,
-                            img.url, embeddingText, JSON.stringify(enrichedData),
-                            enrichedData.enrichment_version || '1.0',
-                            enrichedData.enrichment_source || 'unknown',
-                            new Date().toISOString()
-                        ]
-                    });
-                }
+                    await this.runStep(job, report, 'turso', async () => {
+                        await SnapshotService.captureRow(job.id, 'product_images', img.id);
+                        await turso.execute({
+                            sql: `
+                                UPDATE product_images SET
+                                    embedding_text = ?, enrichment_json = ?,
+                                    enrichment_version = ?, enrichment_source = ?, updated_at = datetime('now')
+                                WHERE id = ?
+                            `,
+                            args: [embedded.text, JSON.stringify(enrichment), embedded.enrichmentVersion, embedded.enrichmentSource, img.id]
+                        });
+                        await ProductEmbeddingService.record(job.id, embedded, embedError);
+                    }, { label });
+                });
 
+                report.status = 'success';
                 job.progress.completed++;
-                job.results.push({ id: product.id, status: 'success' });
+                job.results.push({
+                    id,
+                    status: 'success',
+                    enrichmentSource: enrichment.enrichment_source,
+                    ...(warnings.length > 0 && { warnings })
+                });
+            } catch (err: any) {
+                console.error(`Failed to re-enrich ${name}:`, err);
+                report.status = 'failed';
+                this.recordFailure(job, id, err);
+            }
+        });
+    }
 
+    /**
+     * Whether every image of a product was enriched by the current enrichment version
+     */
+    private static isEnrichmentCurrent(imageRows: Array<Record<string, any>>) {
+        return imageRows.every(img => img.enrichment_version === ENRICHMENT_VERSION);
+    }
+
+    /**
+     * Turso rows of the job's pending products, for jobs working from Turso
+     * alone. Products that were never migrated are recorded as failed.
+     */
+    private static async loadMigratedProducts(job: Job) {
+        const pending = this.pendingItems(job);
+        const rows = await TursoService.getByNotionIds(pending, 'moodboard');
+        const imageRows = await TursoService.getProductImages(Object.values(rows).map(row => row.id));
+
+        for (const id of pending.filter(id => !rows[id])) {
+            const report = this.startReport(job, id, id);
+            this.finishReport(report, 'failed');
+            this.recordFailure(job, id, new Error('Product has not been migrated yet'));
+            this.publishItem(job, report);
+        }
+
+        const products = Object.values(rows).map(row => ({ id: row.notion_id as string, name: row.name as string, row }));
+        return { products, imageRows };
+    }
+
+    private static async migrateSpotlight(job: Job) {
+        const notionItems = await this.fetchJobItems(job) as Spotlight[];
+        await this.removeUnpublished(job, notionItems);
+
+        const pending = this.pendingItems(job);
+        const entriesToMigrate = await this.skipUnchanged(job, notionItems.filter(s => pending.includes(s.id)));
+
+        await this.runPool(job, entriesToMigrate, (entry, report) => this.migrateSpotlightEntry(job, entry, report));
+    }
+
+    private static async migrateSpotlightEntry(job: Job, entry: Spotlight, report: ItemReport) {
+        try {
+            const problems = this.spotlightWarnings(entry);
+            const [productNotionId] = entry.productIds;
+            if (!productNotionId || !entry.startDate) {
+                throw new Error(problems[0]);
+            }
+
+            // The featured product must already be live, the spotlight row references it
+            const productId = await this.runStep(job, report, 'turso', async () => {
+                const rows = await TursoService.getByNotionIds([productNotionId], 'moodboard');
+                const product = rows[productNotionId];
+                if (!product) {
+                    throw new Error(`Featured product ${productNotionId} has not been migrated yet`);
+                }
+                return product.id as string;
+            }, { label: 'product' });
+
+            const contentHash = generateContentHash(entry);
+
+            await this.runStep(job, report, 'snapshot', () => SnapshotService.captureRow(job.id, 'spotlight', entry.id));
+
+            await this.runStep(job, report, 'turso', () => turso.execute({
+                sql: `
+                    INSERT INTO spotlight (
+                        id, product_id, start_date, end_date, content_hash, created_at, updated_at
+                    ) VALUES (?, ?, ?, ?, ?, ?, ?)
+                    ON CONFLICT(id) DO UPDATE SET
+                        product_id=excluded.product_id,
+                        start_date=excluded.start_date,
+                        end_date=excluded.end_date,
+                        content_hash=excluded.content_hash,
+                        updated_at=excluded.updated_at
+                `,
+                args: [
+                    entry.id, productId, entry.startDate, entry.endDate, contentHash,
+                    new Date().toISOString(), new Date().toISOString()
+                ]
+            }));
+
+            const warnings = problems.map(error => ({ step: 'turso', kind: 'validation', error }));
+            warnings.forEach(w => JobEvents.log(job.id, 'warn', `${entry.name}: ${w.error}`));
+
+            report.status = 'success';
+            job.progress.completed++;
+            job.results.push({ id: entry.id, status: 'success', ...(warnings.length > 0 && { warnings }) });
+
+        } catch (err: any) {
+            console.error(`Failed to migrate spotlight ${entry.name}:`, err);
+            report.status = 'failed';
+            this.recordFailure(job, entry.id, err);
+        }
+    }
+
+    /**
+     * Problems with a spotlight entry's relation or dates; the first two make it unmigratable
+     */
+    private static spotlightWarnings(entry: Spotlight): string[] {
+        if (entry.productIds.length === 0) return [`${entry.name} has no related moodboard product`];
+        if (!entry.startDate) return [`${entry.name} has no date`];
+        if (entry.productIds.length > 1) {
+            return [`${entry.name} relates to ${entry.productIds.length} products, only the first is featured`];
+        }
+        return [];
+    }
+
+    private static async unmigratedProductWarnings(entries: Spotlight[]): Promise<string[]> {
+        const productIds = [...new Set(entries.map(entry => entry.productIds[0]).filter(Boolean))];
+        const products = await TursoService.getByNotionIds(productIds, 'moodboard');
+
+        return entries
+            .filter(entry => entry.productIds[0] && !products[entry.productIds[0]])
+            .map(entry => `${entry.name} features a product that has not been migrated yet, migrate it first`);
+    }
+
+    /**
+     * Notion pages of the job's pending items, fetched by ID; items missing
+     * from the result are no longer live in Notion
+     */
+    private static fetchJobItems(job: Job): Promise<NotionItem[]> {
+        return NotionCache.getByIds(job.type, this.pendingItems(job));
+    }
+
+    /**
+     * Download a Notion-hosted file. Signed URLs expire after about an hour,
+     * so a long job may need a fresh one from Notion before retrying.
+     */
+    private static async downloadSource(job: Job, report: ItemReport, label: string, url: string, refreshUrl: () => Promise<string | undefined>) {
+        let current = url;
+        return this.runStep(job, report, 'download', () => ImageService.download(current), {
+            label,
+            retry: {
+                beforeRetry: async err => {
+                    if (isExpiredSignedUrl(err)) {
+                        current = (await refreshUrl()) || current;
+                    }
+                }
+            }
+        });
+    }
+
+    /**
+     * Run a step with retries and record it on the item's timeline
+     */
+    private static async runStep<T>(
+        job: Job,
+        report: ItemReport,
+        step: MigrationStep,
+        fn: () => Promise<T>,
+        options: { label?: string; retry?: RetryOptions } = {}
+    ): Promise<T> {
+        const started = Date.now();
+        const entry: StepTiming = {
+            step,
+            ...(options.label && { label: options.label }),
+            startedAt: new Date(started).toISOString(),
+            durationMs: 0,
+            status: 'running'
+        };
+        report.steps.push(entry);
+
+        try {
+            const result = await withRetry(step, attempt => {
+                entry.attempts = attempt;
+                return fn();
+            }, {
+                ...options.retry,
+                onRetry: (err, kind, attempt, delayMs) => JobEvents.log(job.id, 'warn',
+                    `${report.name}: ${step}${options.label ? ` (${options.label})` : ''} attempt ${attempt} failed (${kind}), retrying in ${delayMs}ms: ${err.message}`)
+            });
+            entry.status = 'success';
+            return result;
+        } catch (err: any) {
+            entry.status = 'failed';
+            entry.error = err.message;
+            throw err;
+        } finally {
+            entry.durationMs = Date.now() - started;
+        }
+    }
+
+    /**
+     * Record an item failure with the step that failed and how to treat it
+     */
+    private static recordFailure(job: Job, id: string, err: any) {
+        const stepError = err instanceof StepError ? err : null;
+        job.progress.failed++;
+        job.errors.push({
+            id,
+            error: err.message,
+            step: stepError?.step ?? null,
+            kind: classifyError(err),
+            attempts: stepError?.attempts ?? 1
+        });
+    }
+
+    /**
+     * Run `fn` over items with up to `migration.itemConcurrency` in flight.
+     * Stops picking up new items once the job is cancelled; `progress.current`
+     * lists every item currently being processed. Items held by an earlier job
+     * are skipped or waited for, per the job's lock policy.
+     */
+    private static async runPool<T extends { id: string; name: string }>(
+        job: Job,
+        items: T[],
+        fn: (item: T, report: ItemReport) => Promise<void>
+    ) {
+        const active = new Set<string>();
+        const updateCurrent = () => {
+            job.progress.current = active.size > 0 ? `Processing ${[...active].join(', ')}` : null;
+        };
+
+        await mapWithConcurrency(items, config.migration.itemConcurrency, async item => {
+            if (this.isStopping(job)) return;
+
+            const holder = await this.waitForItem(job, item.id, item.name);
+            if (this.isStopping(job)) return;
+            if (holder) {
+                this.skipItem(job, item.id, item.name, `Being processed by job ${holder}`);
+                this.persist(job);
+                return;
+            }
+
+            active.add(item.name);
+            updateCurrent();
+            const report = this.startReport(job, item.id, item.name);
+            this.persist(job);
+            try {
+                await fn(item, report);
+            } finally {
+                this.finishReport(report);
+                active.delete(item.name);
+                updateCurrent();
+                this.publishItem(job, report);
+                this.persist(job);
+            }
+        });
+    }
+
+    /**
+     * Whether the job should stop taking new items, because it was cancelled or is pausing
+     */
+    private static isStopping(job: Job) {
+        return job.status === 'cancelled' || pausing.has(job.id);
+    }
+
+    /**
+     * Save the job and push its progress to live subscribers
+     */
+    private static persist(job: Job) {
+        JobEvents.publish(job.id, 'progress', { status: job.status, progress: job.progress });
+        return JobStore.save(job);
+    }
+
+    /**
+     * Push a finished item's report, outcome and a log line to live subscribers
+     */
+    private static publishItem(job: Job, report: ItemReport) {
+        const error = job.errors.find(entry => entry?.id === report.id);
+        const result = job.results.find(entry => entry?.id === report.id);
+        JobEvents.publish(job.id, 'item', { report, result: result ?? null, error: error ?? null });
+
+        if (error) {
+            JobEvents.log(job.id, 'error', `${report.name} failed${error.step ? ` at ${error.step}` : ''} (${error.kind}): ${error.error}`);
+        } else {
+            JobEvents.log(job.id, 'info', `${report.name} ${report.status} in ${((report.durationMs ?? 0) / 1000).toFixed(1)}s`);
+        }
+    }
+
+    private static startReport(job: Job, id: string, name: string): ItemReport {
+        const report: ItemReport = {
+            id,
+            name,
+            status: 'processing',
+            startedAt: new Date().toISOString(),
+            steps: [],
+            images: [],
+            r2Keys: [],
+            vectorIds: []
+        };
+        job.reports[id] = report;
+        return report;
+    }
+
+    private static finishReport(report: ItemReport, status?: ItemReport['status']) {
+        if (status) report.status = status;
+        report.finishedAt = new Date().toISOString();
+        report.durationMs = Date.parse(report.finishedAt) - Date.parse(report.startedAt);
+    }
+
+    /**
+     * What taking an item offline touches: its Turso row(s), R2 objects and vectors
+     */
+    private static buildRemovalPlan(
+        type: JobType,
+        row: Record<string, any>,
+        imageRows: Array<Record<string, any>>,
+        notionItem?: NotionItem
+    ): RemovalPlan {
+        const isDesigners = type === 'designers';
+        const isSpotlight = type === 'spotlight';
+        const targetStatus = notionItem?.notionStatus && notionItem.notionStatus !== 'Published'
+            ? notionItem.notionStatus
+            : 'Archived';
+
+        return {
+            id: row.notion_id,
+            name: notionItem?.name || row.name || row.notion_id,
+            reason: notionItem ? `${targetStatus} in Notion` : 'Deleted in Notion',
+            // Spotlight rows have no status column
+            rows: isSpotlight ? 'delete' : config.migration.removedRows as RemovalPlan['rows'],
+            targetStatus,
+            objects: config.migration.removedObjects === 'quarantine' && config.r2.snapshotBucket ? 'quarantine' : 'delete',
+            r2Keys: isDesigners
+                ? [this.indexObjectKey(row.cover)].filter((key): key is string => !!key)
+                : imageRows.map(img => img.r2_key).filter(Boolean),
+            // Nothing to take out of Vectorize when it isn't configured
+            vectorIds: VectorizeService.isConfigured() ? imageRows.map(img => img.id) : [],
+            productImages: imageRows.length
+        };
+    }
+
+    /**
+     * Selected items that are no longer published in Notion are taken offline
+     * in Turso, R2 and Vectorize. Items that were never migrated are skipped,
+     * and so is everything in jobs scoped to metadata or images.
+     */
+    private static async removeUnpublished(job: Job, notionItems: NotionItem[]) {
+        const notionById = new Map(notionItems.map(item => [item.id, item]));
+        const unpublished = this.pendingItems(job).filter(id => !notionById.get(id)?.published);
+        if (unpublished.length === 0) return;
+
+        const rows = await TursoService.getByNotionIds(unpublished, CONTENT_TABLES[job.type]);
+        const imageRows = job.type === 'moodboard'
+            ? await TursoService.getProductImages(Object.values(rows).map(row => row.id))
+            : {};
+
+        for (const id of unpublished) {
+            if (this.isStopping(job)) break;
+
+            const row = rows[id];
+            const name = notionById.get(id)?.name || row?.name || id;
+
+            const holder = await this.waitForItem(job, id, name);
+            if (this.isStopping(job)) break;
+            if (holder) {
+                this.skipItem(job, id, name, `Being processed by job ${holder}`);
+                this.persist(job);
+                continue;
+            }
+
+            if (!row) {
+                this.skipItem(job, id, name, 'Not published in Notion');
+                continue;
+            }
+            if (job.scope && job.scope !== 'full') {
+                this.skipItem(job, id, name, 'Not published in Notion; only a full migration takes it offline');
+                continue;
+            }
+
+            const report = this.startReport(job, id, name);
+
+            const plan = this.buildRemovalPlan(job.type, row, imageRows[row.id] || [], notionById.get(id));
+            job.progress.current = `Removing ${plan.name}`;
+
+            try {
+                // Every removal operation is idempotent, so the whole thing can be retried
+                await this.runStep(job, report, 'remove', () => this.executeRemoval(job, row, plan));
+                this.finishReport(report, 'removed');
+                job.progress.completed++;
+                job.results.push({ id, status: 'removed', reason: plan.reason });
             } catch (err: any) {
-                console.error(`Failed to migrate moodboard product ${product.name}:`, err);
-                job.progress.failed++;
-                job.errors.push({ id: product.id, error: err.message });
+                console.error(`Failed to remove ${plan.name}:`, err);
+                this.finishReport(report, 'failed');
+                this.recordFailure(job, id, err);
             }
+
+            this.publishItem(job, report);
+            this.persist(job);
         }
     }
 
-    private static generateSlug(name: string): string {
-        return name.toLowerCase()
-            .replace(/[^a-z0-9]+/g, '-')
-            .replace(/(^-|-$)+/g, '');
+    private static async executeRemoval(job: Job, row: Record<string, any>, plan: RemovalPlan) {
+        const type = job.type;
+        const isMoodboard = type === 'moodboard';
+
+        // Keep everything removed below so the job can be rolled back
+        await SnapshotService.captureVectors(job.id, plan.vectorIds);
+        for (const key of plan.r2Keys) {
+            await SnapshotService.captureObject(job.id, key, isMoodboard);
+        }
+        if (isMoodboard) await SnapshotService.captureProductImages(job.id, row.id);
+        await SnapshotService.captureRow(job.id, CONTENT_TABLE_NAMES[type], row.notion_id);
+
+        // Vectors first so search stops returning the item even if a later step fails
+        await VectorizeService.deleteByIds(plan.vectorIds);
+
+        for (const key of plan.r2Keys) {
+            if (plan.objects === 'quarantine') {
+                await StorageService.quarantine(key, isMoodboard);
+            } else {
+                await StorageService.delete(key, isMoodboard);
+            }
+        }
+
+        const now = new Date().toISOString();
+        if (type === 'spotlight') {
+            await turso.execute({ sql: 'DELETE FROM spotlight WHERE id = ?', args: [row.id] });
+        } else if (isMoodboard) {
+            // Image rows point at objects that are gone either way
+            await ProductEmbeddingService.removeForProduct(job.id, row.id);
+            await turso.execute({ sql: 'DELETE FROM product_images WHERE product_id = ?', args: [row.id] });
+            await turso.execute(plan.rows === 'delete'
+                ? { sql: 'DELETE FROM products WHERE id = ?', args: [row.id] }
+                : { sql: 'UPDATE products SET status = ?, updated_at = ? WHERE id = ?', args: [plan.targetStatus, now, row.id] });
+        } else {
+            await turso.execute(plan.rows === 'delete'
+                ? { sql: 'DELETE FROM studios WHERE id = ?', args: [row.id] }
+                : { sql: 'UPDATE studios SET status = ?, updated_at = ? WHERE id = ?', args: [plan.targetStatus, now, row.id] });
+        }
+    }
+
+    /**
+     * Renamed items keep their old URL working through a redirect
+     */
+    private static async recordSlugChange(
+        job: Job,
+        report: ItemReport,
+        table: SlugTable,
+        notionId: string,
+        previous: string | null,
+        slug: string
+    ) {
+        if (!previous || previous === slug) return;
+
+        await this.runStep(job, report, 'turso',
+            () => SlugService.recordRedirect(job.id, table, notionId, previous, slug), { label: 'redirect' });
+        JobEvents.log(job.id, 'info', `${report.name}: slug changed from ${previous} to ${slug}, redirect recorded`);
     }
 }
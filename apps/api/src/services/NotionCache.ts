@@ -0,0 +1,121 @@
+import { config } from '../config';
+import { NotionService, NotionItem } from './NotionService';
+import { JobType } from './JobStore';
+
+interface CacheEntry {
+    item: NotionItem;
+    lastEditedTime: string | undefined;
+}
+
+interface TypeCache {
+    entries: Map<string, CacheEntry>;
+    // Start of the last refresh; pages edited after it may not be cached yet
+    refreshedAt: string | null;
+    // Last time the whole database was listed, which also drops deleted pages
+    fullRefreshAt: number;
+    // Refresh in flight, shared by concurrent callers
+    refreshing: Promise<void> | null;
+}
+
+// Notion rounds last_edited_time down to the minute, so incremental refreshes
+// look back a little further than the last one started
+const REFRESH_LOOKBACK_MS = 2 * 60 * 1000;
+
+// Notion file URLs are signed for about an hour and only an edit or a full
+// refresh replaces a cached page, so pages are listed again at least this often
+// and every URL served from the cache stays valid for half an hour or more
+const SIGNED_URL_REFRESH_MS = 30 * 60 * 1000;
+
+const caches = {} as Record<JobType, TypeCache>;
+
+function cacheFor(type: JobType): TypeCache {
+    if (!caches[type]) {
+        caches[type] = { entries: new Map(), refreshedAt: null, fullRefreshAt: 0, refreshing: null };
+    }
+    return caches[type];
+}
+
+/**
+ * Mapped Notion pages per content type, keyed by page ID and kept current by
+ * querying only pages edited since the last refresh. The whole database is
+ * listed on first use and every NOTION_CACHE_FULL_REFRESH_MINUTES (30 at most,
+ * so signed file URLs don't expire in the cache), as deleted and archived pages
+ * never show up in an incremental query.
+ */
+export class NotionCache {
+    /**
+     * Every page of the content type, published or not
+     */
+    static async getAll(type: JobType): Promise<NotionItem[]> {
+        const cache = cacheFor(type);
+        if (!cache.refreshing) {
+            cache.refreshing = this.refresh(type, cache).finally(() => {
+                cache.refreshing = null;
+            });
+        }
+        await cache.refreshing;
+        return Array.from(cache.entries.values(), entry => entry.item);
+    }
+
+    /**
+     * Fetch the given pages by ID, bypassing the cache so file URLs are freshly
+     * signed, and store them. IDs that aren't live pages of the type are left out.
+     */
+    static async getByIds(type: JobType, ids: string[]): Promise<NotionItem[]> {
+        const cache = cacheFor(type);
+        const items = await Promise.all(ids.map(id => NotionService.getItem(type, id)));
+
+        ids.forEach((id, i) => {
+            const item = items[i];
+            if (item) cache.entries.set(id, { item, lastEditedTime: item.lastEditedTime });
+            else cache.entries.delete(id);
+        });
+        return items.filter((item): item is NotionItem => item !== null);
+    }
+
+    static getStats() {
+        return Object.fromEntries(Object.entries(caches).map(([type, cache]) => [type, {
+            pages: cache.entries.size,
+            refreshedAt: cache.refreshedAt,
+            fullRefreshAt: cache.fullRefreshAt ? new Date(cache.fullRefreshAt).toISOString() : null,
+        }]));
+    }
+
+    /**
+     * Forget the cached pages of one or every content type
+     */
+    static clear(type?: JobType) {
+        for (const key of Object.keys(caches) as JobType[]) {
+            if (!type || key === type) delete caches[key];
+        }
+    }
+
+    private static async refresh(type: JobType, cache: TypeCache) {
+        const startedAt = new Date().toISOString();
+        const fullRefreshMs = Math.min(config.notion.cacheFullRefreshMinutes * 60 * 1000, SIGNED_URL_REFRESH_MS);
+        const full = !cache.refreshedAt || Date.now() - cache.fullRefreshAt >= fullRefreshMs;
+
+        if (full) {
+            const items = await this.fetch(type);
+            cache.entries = new Map(items.map(item => [item.id, { item, lastEditedTime: item.lastEditedTime }]));
+            cache.fullRefreshAt = Date.parse(startedAt);
+        } else {
+            const since = new Date(Date.parse(cache.refreshedAt!) - REFRESH_LOOKBACK_MS).toISOString();
+            const edited = await this.fetch(type, since);
+            for (const item of edited) {
+                const cached = cache.entries.get(item.id);
+                if (cached && cached.lastEditedTime === item.lastEditedTime) continue;
+                cache.entries.set(item.id, { item, lastEditedTime: item.lastEditedTime });
+            }
+        }
+        cache.refreshedAt = startedAt;
+    }
+
+    private static fetch(type: JobType, editedSince?: string): Promise<NotionItem[]> {
+        switch (type) {
+            case 'designers': return NotionService.getDesigners(true, editedSince);
+            case 'moodboard': return NotionService.getMoodboard(true, editedSince);
+            case 'spotlight': return NotionService.getSpotlight(true, editedSince);
+        }
+    }
+}
@@ -1,51 +1,65 @@
-import { Client } from '@notionhq/client';
 import { config } from '../config';
-import { Designer, MoodboardProduct } from '@repo/shared-types';
+import { Designer, MoodboardProduct, Spotlight } from '@repo/shared-types';
+import { NotionClient } from '@repo/notion-client';
+import { classifyError } from '../lib/errors';
+import {
+    NotionContentType,
+    NotionMappings,
+    ResolvedField,
+    WriteBackConfig,
+    WriteBackValues,
+    buildWriteBackProperties,
+    checkNotionMapping,
+    defaultResolution,
+    parseNotionMappings,
+    parseWriteBack,
+    readNotionField
+} from '../lib/notion-mapping';
 
-const notion = new Client({ auth: config.notion.apiKey });
+// Every Notion request of the API goes through this client
+const notion = new NotionClient({
+    auth: config.notion.apiKey,
+    ratePerSecond: config.rateLimits.notion,
+    attempts: config.notion.retryAttempts,
+    baseDelayMs: config.migration.retry.baseDelayMs,
+    maxDelayMs: config.migration.retry.maxDelayMs,
+    isTransient: err => classifyError(err) === 'transient',
+});
+
+const DATABASE_IDS: Record<NotionContentType, string | undefined> = {
+    designers: config.notion.designersDbId,
+    moodboard: config.notion.moodboardDbId,
+    spotlight: config.notion.spotlightDbId,
+};
+
+export type NotionItem = Designer | MoodboardProduct | Spotlight;
+
+let mappings: NotionMappings | null = null;
+// Properties each field was found under by validateMappings, per content type
+const resolved: Partial<Record<NotionContentType, Record<string, ResolvedField>>> = {};
+
+let writeBackConfigs: Partial<Record<NotionContentType, WriteBackConfig>> | null = null;
+// Same for the migration status properties written back to Notion
+const writeBackResolved: Partial<Record<NotionContentType, Record<string, ResolvedField>>> = {};
 
 export class NotionService {
     /**
      * Fetch designers from Notion
      * @param includeUnpublished - If true, fetches all designers regardless of status
+     * @param editedSince - Only pages edited at or after this ISO timestamp
      */
-    static async getDesigners(includeUnpublished = false): Promise<Designer[]> {
-        let allResults: any[] = [];
-        let cursor: string | undefined = undefined;
-
+    static async getDesigners(includeUnpublished = false, editedSince?: string): Promise<Designer[]> {
         try {
-            do {
-                const queryParams: any = {
-                    database_id: config.notion.designersDbId as string,
-                    start_cursor: cursor,
-                    page_size: 100,
-                };
-
+            const allResults = await notion.queryAll({
+                database_id: config.notion.designersDbId as string,
                 // Only add filter if we want published only
-                if (!includeUnpublished) {
-                    queryParams.filter = {
-                        property: 'Status',
-                        status: { equals: 'Published' }
-                    };
-                }
-
-                const response = await notion.databases.query(queryParams);
-                allResults = [...allResults, ...response.results];
-                cursor = response.next_cursor ?? undefined;
-            } while (cursor);
-
-            return allResults.map((page: any) => ({
-                id: page.id,
-                notionId: page.id,
-                name: page.properties['Name']?.title?.[0]?.plain_text || 'Untitled',
-                city: page.properties['City']?.select?.name,
-                coverUrl: page.properties['Cover']?.files?.[0]?.file?.url || page.properties['Cover']?.files?.[0]?.external?.url,
-                website: page.properties['Website URL']?.url,
-                instagram: page.properties['IG']?.url,
-                email: page.properties['Email']?.email,
-                notionStatus: page.properties['Status']?.status?.name || 'Draft',
-                published: page.properties['Status']?.status?.name === 'Published'
-            }));
+                filter: this.buildFilter([
+                    !includeUnpublished && this.publishedFilter('designers'),
+                    this.editedSinceFilter(editedSince)
+                ]),
+            });
+
+            return allResults.map(page => this.mapDesigner(page));
         } catch (error) {
             console.error("Error fetching designers from Notion", error);
             throw error;
@@ -55,54 +69,270 @@ export class NotionService {
     /**
      * Fetch moodboard products from Notion
      * @param includeUnpublished - If true, fetches all products regardless of status
+     * @param editedSince - Only pages edited at or after this ISO timestamp
      */
-    static async getMoodboard(includeUnpublished = false): Promise<MoodboardProduct[]> {
-        let allResults: any[] = [];
-        let cursor: string | undefined = undefined;
-
+    static async getMoodboard(includeUnpublished = false, editedSince?: string): Promise<MoodboardProduct[]> {
         try {
-            do {
-                const queryParams: any = {
-                    database_id: config.notion.moodboardDbId as string,
-                    start_cursor: cursor,
-                    page_size: 100,
-                };
-
-                if (!includeUnpublished) {
-                    queryParams.filter = {
-                        property: 'Status',
-                        select: { equals: 'Published' }
-                    };
-                }
-
-                const response = await notion.databases.query(queryParams);
-                allResults = [...allResults, ...response.results];
-                cursor = response.next_cursor ?? undefined;
-            } while (cursor);
-
-            return allResults.map((page: any) => {
-                const props = page.properties;
-                const images = props['Image']?.files || props['Cover']?.files || [];
-
-                return {
-                    id: page.id,
-                    notionId: page.id,
-                    name: props['Name']?.title?.[0]?.plain_text || 'Untitled',
-                    designer: props['Designer']?.select?.name,
-                    year: props['Year']?.select?.name,
-                    city: props['City']?.select?.name || props['City']?.rich_text?.[0]?.plain_text,
-                    link: props['Link']?.url,
-                    notionStatus: props['Status']?.select?.name || 'Draft',
-                    published: props['Status']?.select?.name === 'Published',
-                    images: images.map((img: any, index: number) => ({
-                        url: img.file?.url || img.external?.url,
-                        position: index
-                    }))
-                };
+            const allResults = await notion.queryAll({
+                database_id: config.notion.moodboardDbId as string,
+                filter: this.buildFilter([
+                    !includeUnpublished && this.publishedFilter('moodboard'),
+                    this.editedSinceFilter(editedSince)
+                ]),
             });
+
+            return allResults.map(page => this.mapProduct(page));
         } catch (error) {
             console.error("Error fetching moodboard from Notion", error);
             throw error;
         }
     }
+
+    /**
+     * Fetch spotlight entries from Notion
+     * @param includeUnpublished - If true, fetches all entries regardless of status
+     * @param editedSince - Only pages edited at or after this ISO timestamp
+     */
+    static async getSpotlight(includeUnpublished = false, editedSince?: string): Promise<Spotlight[]> {
+        try {
+            const allResults = await notion.queryAll({
+                database_id: config.notion.spotlightDbId as string,
+                filter: this.buildFilter([this.editedSinceFilter(editedSince)]),
+            });
+
+            // Not every spotlight database has a Status property, so filter after mapping
+            const entries = allResults.map(page => this.mapSpotlight(page));
+            return includeUnpublished ? entries : entries.filter(entry => entry.published);
+        } catch (error) {
+            console.error("Error fetching spotlight from Notion", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Fetch a single page, e.g. to get fresh signed file URLs mid-migration
+     */
+    static async getDesigner(pageId: string): Promise<Designer> {
+        const page = await notion.request('pages.retrieve', client => client.pages.retrieve({ page_id: pageId }));
+        return this.mapDesigner(page);
+    }
+
+    static async getProduct(pageId: string): Promise<MoodboardProduct> {
+        const page = await notion.request('pages.retrieve', client => client.pages.retrieve({ page_id: pageId }));
+        return this.mapProduct(page);
+    }
+
+    /**
+     * Fetch one page of a content type by ID. Like a database query, this
+     * leaves out pages that are archived, deleted or in another database.
+     */
+    static async getItem(type: NotionContentType, pageId: string): Promise<NotionItem | null> {
+        let page: any;
+        try {
+            page = await notion.request('pages.retrieve', client => client.pages.retrieve({ page_id: pageId }));
+        } catch (err: any) {
+            if (err?.status === 404 || err?.code === 'object_not_found' || err?.code === 'validation_error') return null;
+            throw err;
+        }
+
+        const databaseId = page.parent?.database_id?.replace(/-/g, '');
+        if (page.archived || page.in_trash || databaseId !== DATABASE_IDS[type]?.replace(/-/g, '')) return null;
+
+        switch (type) {
+            case 'designers': return this.mapDesigner(page);
+            case 'moodboard': return this.mapProduct(page);
+            case 'spotlight': return this.mapSpotlight(page);
+        }
+    }
+
+    /**
+     * Request counts, rate limiting and retries since startup or the last reset
+     */
+    static getMetrics() {
+        return notion.getMetrics();
+    }
+
+    static resetMetrics() {
+        notion.resetMetrics();
+    }
+
+    /**
+     * Check the property mapping of each configured database against its
+     * schema, along with the properties migration status is written back to.
+     * Missing or mistyped properties fail startup, missing optional ones are
+     * only logged; a database that can't be fetched is skipped.
+     */
+    static async validateMappings() {
+        const problems: string[] = [];
+        const writeBack = this.writeBackConfigs();
+
+        for (const [type, mapping] of Object.entries(this.mappings()) as Array<[NotionContentType, NotionMappings[NotionContentType]]>) {
+            const databaseId = DATABASE_IDS[type];
+            if (!databaseId) continue;
+
+            let database: any;
+            try {
+                database = await notion.request('databases.retrieve', client => client.databases.retrieve({ database_id: databaseId }));
+            } catch (err: any) {
+                console.warn(`Notion mapping: could not fetch the ${type} database, skipping validation: ${err.message}`);
+                continue;
+            }
+
+            const { errors, warnings, resolved: fields } = checkNotionMapping(mapping, database.properties);
+            warnings.forEach(warning => console.warn(`Notion mapping (${type}): ${warning}`));
+            problems.push(...errors.map(error => `${type}.${error}`));
+            resolved[type] = fields;
+
+            const writeBackConfig = writeBack[type];
+            if (!writeBackConfig) continue;
+            const check = checkNotionMapping(writeBackConfig.mapping, database.properties);
+            problems.push(...check.errors.map(error => `${type} write-back.${error}`));
+            if (check.resolved.liveUrl?.type === 'url' && !writeBackConfig.urlTemplate) {
+                problems.push(`${type} write-back.liveUrl: property "${check.resolved.liveUrl.property}" is url, set a urlTemplate`);
+            }
+            writeBackResolved[type] = check.resolved;
+        }
+
+        if (problems.length > 0) {
+            throw new Error(
+                `Notion property mapping doesn't match the databases:\n${problems.map(p => `  - ${p}`).join('\n')}\n` +
+                'Rename the properties in Notion or override them with NOTION_PROPERTY_MAP (NOTION_WRITE_BACK for write-back)'
+            );
+        }
+    }
+
+    static isWriteBackEnabled(type: NotionContentType): boolean {
+        return Boolean(this.writeBackConfigs()[type]);
+    }
+
+    /**
+     * Live URL of an item for write-back: the type's urlTemplate with the slug, or the slug itself
+     */
+    static liveUrl(type: NotionContentType, slug: string): string {
+        const template = this.writeBackConfigs()[type]?.urlTemplate;
+        return template ? template.replace('{slug}', slug) : slug;
+    }
+
+    /**
+     * Write migration status to the configured properties of a page
+     */
+    static async writeBack(type: NotionContentType, pageId: string, values: WriteBackValues) {
+        const writeBackConfig = this.writeBackConfigs()[type];
+        if (!writeBackConfig) return;
+
+        const fields = writeBackResolved[type] ?? Object.fromEntries(
+            Object.entries(writeBackConfig.mapping).map(([field, spec]) => [field, defaultResolution(spec)])
+        );
+        const properties = buildWriteBackProperties(values, fields);
+        if (Object.keys(properties).length === 0) return;
+
+        await notion.request('pages.update', client => client.pages.update({ page_id: pageId, properties }));
+    }
+
+    /**
+     * Property mapping per content type, parsed once from the config
+     */
+    private static mappings(): NotionMappings {
+        if (!mappings) mappings = parseNotionMappings(config.notion.propertyMap);
+        return mappings;
+    }
+
+    private static writeBackConfigs(): Partial<Record<NotionContentType, WriteBackConfig>> {
+        if (!writeBackConfigs) writeBackConfigs = parseWriteBack(config.notion.writeBack);
+        return writeBackConfigs;
+    }
+
+    /**
+     * Read every mapped field of a page
+     */
+    private static readFields(type: NotionContentType, page: any): Record<string, any> {
+        const fields: Record<string, any> = {};
+        for (const [field, spec] of Object.entries(this.mappings()[type])) {
+            fields[field] = readNotionField(page.properties, spec);
+        }
+        return fields;
+    }
+
+    /**
+     * Filter on the status property being Published, using the property type
+     * found at startup (or the first accepted one)
+     */
+    private static publishedFilter(type: NotionContentType) {
+        const field = resolved[type]
+            ? resolved[type].notionStatus
+            : defaultResolution(this.mappings()[type].notionStatus);
+        return field ? { property: field.property, [field.type]: { equals: 'Published' } } : null;
+    }
+
+    private static mapDesigner(page: any): Designer {
+        const fields = this.readFields('designers', page);
+        return {
+            id: page.id,
+            notionId: page.id,
+            name: fields.name || 'Untitled',
+            city: fields.city,
+            coverUrl: fields.coverUrl,
+            website: fields.website,
+            instagram: fields.instagram,
+            email: fields.email,
+            notionStatus: fields.notionStatus || 'Draft',
+            published: fields.notionStatus === 'Published',
+            lastEditedTime: page.last_edited_time
+        };
+    }
+
+    /**
+     * Combine query filters, dropping unset ones; undefined means no filter
+     */
+    private static buildFilter(conditions: any[]): any {
+        const active = conditions.filter(Boolean);
+        if (active.length === 0) return undefined;
+        return active.length === 1 ? active[0] : { and: active };
+    }
+
+    private static editedSinceFilter(editedSince?: string) {
+        return editedSince
+            ? { timestamp: 'last_edited_time', last_edited_time: { on_or_after: editedSince } }
+            : null;
+    }
+
+    private static mapSpotlight(page: any): Spotlight {
+        const fields = this.readFields('spotlight', page);
+        // Entries without a Status property are live, as in the original spotlight script
+        const status = fields.notionStatus;
+
+        return {
+            id: page.id,
+            notionId: page.id,
+            name: fields.name || 'Untitled',
+            productIds: fields.productIds || [],
+            startDate: fields.startDate || null,
+            endDate: fields.endDate || null,
+            notionStatus: status || 'Published',
+            published: !status || status === 'Published',
+            lastEditedTime: page.last_edited_time
+        };
+    }
+
+    private static mapProduct(page: any): MoodboardProduct {
+        const fields = this.readFields('moodboard', page);
+        const images: string[] = fields.images || [];
+
+        return {
+            id: page.id,
+            notionId: page.id,
+            name: fields.name || 'Untitled',
+            designer: fields.designer,
+            year: fields.year,
+            city: fields.city,
+            link: fields.link,
+            notionStatus: fields.notionStatus || 'Draft',
+            published: fields.notionStatus === 'Published',
+            lastEditedTime: page.last_edited_time,
+            images: images.map((url, index) => ({
+                url,
+                position: index
+            }))
+        };
+    }
 }
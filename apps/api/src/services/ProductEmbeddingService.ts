@@ -0,0 +1,112 @@
+import { turso } from './TursoService';
+import { SnapshotService } from './SnapshotService';
+
+export type EmbeddingStatus = 'indexed' | 'failed';
+
+export interface EmbeddedImage {
+    // product_images ID, also used as the vector ID
+    id: string;
+    productId: string;
+    text: string;
+    enrichmentVersion: string | null;
+    enrichmentSource: string | null;
+}
+
+/**
+ * `product_embeddings` rows, one per product image: what was sent to
+ * Vectorize and whether it made it. Failed rows are picked up by
+ * `MigrationService.refreshEmbeddings({ failedOnly: true })`.
+ */
+export class ProductEmbeddingService {
+    /**
+     * Record the outcome of embedding an image; with an error it is marked
+     * failed so it can be retried
+     */
+    static async record(jobId: string, image: EmbeddedImage, error: string | null = null) {
+        await SnapshotService.captureRow(jobId, 'product_embeddings', image.id);
+
+        const status: EmbeddingStatus = error ? 'failed' : 'indexed';
+        const now = new Date().toISOString();
+        await turso.execute({
+            sql: `
+                INSERT INTO product_embeddings (
+                    id, image_id, product_id, vector_id, embedding_text,
+                    enrichment_version, enrichment_source, status, last_error, created_at, updated_at
+                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                ON CONFLICT(id) DO UPDATE SET
+                    embedding_text=excluded.embedding_text,
+                    enrichment_version=excluded.enrichment_version,
+                    enrichment_source=excluded.enrichment_source,
+                    status=excluded.status,
+                    last_error=excluded.last_error,
+                    updated_at=excluded.updated_at
+            `,
+            args: [
+                image.id, image.id, image.productId, image.id, image.text,
+                image.enrichmentVersion, image.enrichmentSource, status, error, now, now
+            ]
+        });
+    }
+
+    /**
+     * Delete the rows of images being removed
+     */
+    static async remove(jobId: string, imageIds: string[]) {
+        for (const id of imageIds) {
+            await SnapshotService.captureRow(jobId, 'product_embeddings', id);
+            await turso.execute({ sql: 'DELETE FROM product_embeddings WHERE id = ?', args: [id] });
+        }
+    }
+
+    static async removeForProduct(jobId: string, productId: string) {
+        const result = await turso.execute({
+            sql: 'SELECT id FROM product_embeddings WHERE product_id = ?',
+            args: [productId]
+        });
+        await this.remove(jobId, result.rows.map(row => row['id'] as string));
+    }
+
+    /**
+     * Notion IDs of live products with at least one failed embedding
+     */
+    static async getFailedNotionIds(): Promise<string[]> {
+        const result = await turso.execute(`
+            SELECT DISTINCT p.notion_id FROM product_embeddings e
+            JOIN products p ON p.id = e.product_id
+            WHERE e.status = 'failed' AND p.status = 'Published'
+        `);
+        return result.rows.map(row => row['notion_id'] as string);
+    }
+
+    /**
+     * Embedding counts by status, and the images that are not searchable
+     */
+    static async getSummary() {
+        const [counts, failed] = await Promise.all([
+            turso.execute('SELECT status, COUNT(*) AS total FROM product_embeddings GROUP BY status'),
+            turso.execute(`
+                SELECT e.id, e.product_id, p.name, e.last_error, e.updated_at
+                FROM product_embeddings e
+                LEFT JOIN products p ON p.id = e.product_id
+                WHERE e.status = 'failed'
+                ORDER BY e.updated_at DESC
+            `)
+        ]);
+
+        const byStatus: Record<EmbeddingStatus, number> = { indexed: 0, failed: 0 };
+        counts.rows.forEach(row => {
+            byStatus[row['status'] as EmbeddingStatus] = Number(row['total']);
+        });
+
+        return {
+            counts: byStatus,
+            failed: failed.rows.map(row => ({
+                imageId: row['id'] as string,
+                productId: row['product_id'] as string,
+                productName: (row['name'] as string) ?? null,
+                error: row['last_error'] as string,
+                updatedAt: row['updated_at'] as string
+            }))
+        };
+    }
+}
@@ -0,0 +1,208 @@
+import { jobsDb, JobStore, JobStatus, JobType, JOB_TYPES } from './JobStore';
+import { MigrationService } from './MigrationService';
+import { parseCron, cronMatches, nextCronRun, CronExpression } from '../lib/cron';
+import { generateId } from '../lib/utils';
+import { config } from '../config';
+
+export type ScheduleMode = 'full' | 'incremental' | 'embeddings-only';
+const SCHEDULE_MODES: ScheduleMode[] = ['full', 'incremental', 'embeddings-only'];
+
+export interface Schedule {
+    id: string;
+    cron: string;
+    type: JobType;
+    mode: ScheduleMode;
+}
+
+export interface ScheduledRun {
+    id: string;
+    scheduleId: string;
+    type: JobType;
+    mode: ScheduleMode;
+    // 'idle' when there was nothing to migrate, 'skipped' when another job held the table
+    status: 'started' | 'idle' | 'skipped' | 'failed';
+    reason: string | null;
+    jobId: string | null;
+    jobStatus?: JobStatus | null;
+    triggeredAt: string;
+}
+
+const schedules: Array<Schedule & { expression: CronExpression }> = [];
+// Content types whose scheduled run is still preparing its job (e.g. querying Notion)
+const starting = new Set<JobType>();
+
+/**
+ * Parse and validate MIGRATION_SCHEDULES, failing startup with a clear message
+ */
+function parseSchedules(raw: string): Array<Schedule & { expression: CronExpression }> {
+    let entries: any;
+    try {
+        entries = JSON.parse(raw);
+    } catch (err: any) {
+        throw new Error(`MIGRATION_SCHEDULES is not valid JSON: ${err.message}`);
+    }
+    if (!Array.isArray(entries)) throw new Error('MIGRATION_SCHEDULES must be a JSON array');
+
+    const seen = new Set<string>();
+    return entries.map((entry, i) => {
+        const where = `MIGRATION_SCHEDULES[${i}]`;
+        if (!JOB_TYPES.includes(entry?.type)) {
+            throw new Error(`${where}: type must be one of ${JOB_TYPES.join(', ')}`);
+        }
+        if (!SCHEDULE_MODES.includes(entry.mode)) {
+            throw new Error(`${where}: mode must be one of ${SCHEDULE_MODES.join(', ')}`);
+        }
+        if (entry.mode === 'embeddings-only' && entry.type !== 'moodboard') {
+            throw new Error(`${where}: embeddings-only is only available for moodboard`);
+        }
+        if (typeof entry.cron !== 'string') throw new Error(`${where}: cron is required`);
+
+        const id = entry.id || `${entry.type}-${entry.mode}`;
+        if (seen.has(id)) throw new Error(`${where}: duplicate schedule id "${id}"`);
+        seen.add(id);
+
+        return { id, cron: entry.cron, type: entry.type, mode: entry.mode, expression: parseCron(entry.cron) };
+    });
+}
+
+function toRun(row: Record<string, any>): ScheduledRun {
+    return {
+        id: row['id'] as string,
+        scheduleId: row['schedule_id'] as string,
+        type: row['type'] as JobType,
+        mode: row['mode'] as ScheduleMode,
+        status: row['status'] as ScheduledRun['status'],
+        reason: (row['reason'] as string) ?? null,
+        jobId: (row['job_id'] as string) ?? null,
+        triggeredAt: row['triggered_at'] as string,
+    };
+}
+
+export class SchedulerService {
+    static async init() {
+        await jobsDb.execute(`
+            CREATE TABLE IF NOT EXISTS scheduled_runs (
+                id TEXT PRIMARY KEY,
+                schedule_id TEXT NOT NULL,
+                type TEXT NOT NULL,
+                mode TEXT NOT NULL,
+                status TEXT NOT NULL,
+                reason TEXT,
+                job_id TEXT,
+                triggered_at TEXT NOT NULL
+            )
+        `);
+        await jobsDb.execute(`
+            CREATE INDEX IF NOT EXISTS idx_scheduled_runs_triggered_at ON scheduled_runs(triggered_at)
+        `);
+
+        schedules.splice(0, schedules.length, ...parseSchedules(config.scheduler.schedules));
+        if (schedules.length === 0) return;
+
+        console.log(`Scheduler: ${schedules.map(s => `${s.id} (${s.cron})`).join(', ')}`);
+        this.scheduleTick();
+    }
+
+    static list() {
+        const now = new Date();
+        return schedules.map(({ expression, ...schedule }) => ({
+            ...schedule,
+            nextRun: nextCronRun(expression, now)?.toISOString() ?? null
+        }));
+    }
+
+    /**
+     * Latest scheduled runs, newest first, with the current status of their jobs
+     */
+    static async history(options: { scheduleId?: string; limit?: number } = {}): Promise<ScheduledRun[]> {
+        const limit = options.limit || config.scheduler.historyLimit;
+        const result = await jobsDb.execute(options.scheduleId
+            ? {
+                sql: 'SELECT * FROM scheduled_runs WHERE schedule_id = ? ORDER BY triggered_at DESC LIMIT ?',
+                args: [options.scheduleId, limit]
+            }
+            : { sql: 'SELECT * FROM scheduled_runs ORDER BY triggered_at DESC LIMIT ?', args: [limit] });
+
+        const runs = result.rows.map(toRun);
+        const statuses = await JobStore.getStatuses(runs.map(run => run.jobId).filter((id): id is string => !!id));
+        return runs.map(run => ({ ...run, jobStatus: run.jobId ? statuses[run.jobId] ?? null : null }));
+    }
+
+    /**
+     * Trigger a schedule outside its cron timing; overlap protection still applies
+     */
+    static async runNow(scheduleId: string): Promise<ScheduledRun | null> {
+        const schedule = schedules.find(s => s.id === scheduleId);
+        return schedule ? this.trigger(schedule) : null;
+    }
+
+    /**
+     * Wake up at the start of every minute and fire the schedules that match it
+     */
+    private static scheduleTick() {
+        const now = new Date();
+        const delay = 60_000 - (now.getSeconds() * 1000 + now.getMilliseconds());
+
+        const timer = setTimeout(() => {
+            const minute = new Date();
+            minute.setSeconds(0, 0);
+
+            for (const schedule of schedules) {
+                if (cronMatches(schedule.expression, minute)) {
+                    this.trigger(schedule).catch(err => console.error(`Scheduled run ${schedule.id} failed:`, err));
+                }
+            }
+            this.scheduleTick();
+        }, delay);
+        timer.unref();
+    }
+
+    private static async trigger(schedule: Schedule): Promise<ScheduledRun> {
+        const run: ScheduledRun = {
+            id: generateId(),
+            scheduleId: schedule.id,
+            type: schedule.type,
+            mode: schedule.mode,
+            status: 'started',
+            reason: null,
+            jobId: null,
+            triggeredAt: new Date().toISOString(),
+        };
+
+        // Checked before `starting`, which can only change during the await
+        const busy = await MigrationService.hasActiveJob(schedule.type);
+        if (busy || starting.has(schedule.type)) {
+            run.status = 'skipped';
+            run.reason = `Another ${schedule.type} job is running or paused`;
+        } else {
+            starting.add(schedule.type);
+            try {
+                const extra = { scheduledBy: schedule.id };
+                const result = schedule.mode === 'embeddings-only'
+                    ? await MigrationService.refreshEmbeddings({}, extra)
+                    : await MigrationService.sync({ type: schedule.type, full: schedule.mode === 'full' }, extra);
+
+                run.jobId = result.jobId;
+                if (!result.jobId) {
+                    run.status = 'idle';
+                    run.reason = 'Nothing to migrate';
+                }
+            } catch (err: any) {
+                run.status = 'failed';
+                run.reason = err.message;
+            } finally {
+                starting.delete(schedule.type);
+            }
+        }
+
+        console.log(`Scheduled run ${schedule.id}: ${run.status}${run.reason ? ` (${run.reason})` : ''}${run.jobId ? ` job ${run.jobId}` : ''}`);
+        await jobsDb.execute({
+            sql: `
+                INSERT INTO scheduled_runs (id, schedule_id, type, mode, status, reason, job_id, triggered_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            `,
+            args: [run.id, run.scheduleId, run.type, run.mode, run.status, run.reason, run.jobId, run.triggeredAt]
+        });
+        return run;
+    }
+}
@@ -0,0 +1,53 @@
+import { createSlugRegistry, SlugTable } from '@repo/shared-types';
+import { turso } from './TursoService';
+import { SnapshotService } from './SnapshotService';
+
+export type { SlugTable };
+
+// One registry per process, so concurrent jobs see each other's reservations
+const registry = createSlugRegistry(turso);
+
+/**
+ * Unique, stable slugs for studios and products; the rules live in
+ * createSlugRegistry (@repo/shared-types), which the migration scripts use too
+ */
+export class SlugService {
+    /**
+     * Slug the name produces before any disambiguation
+     */
+    static base(name: string): string {
+        return registry.base(name);
+    }
+
+    /**
+     * Pick and reserve the slug for an item about to be written; `release` it
+     * once the row is written or failed to be
+     * @returns the slug and the item's current slug, if it has one
+     */
+    static assign(table: SlugTable, notionId: string, name: string) {
+        return registry.assign(table, notionId, name);
+    }
+
+    /**
+     * The slug `assign` would pick, without reserving it (for dry runs)
+     */
+    static preview(table: SlugTable, notionId: string, name: string, current: string | null) {
+        return registry.preview(table, notionId, name, current);
+    }
+
+    static release(table: SlugTable, notionId: string, slug: string) {
+        registry.release(table, notionId, slug);
+    }
+
+    /**
+     * Record that `from` now lives at `to` so the public site can 301, keeping
+     * the redirect rows it changes so the job can be rolled back
+     */
+    static recordRedirect(jobId: string, table: SlugTable, notionId: string, from: string, to: string) {
+        return registry.recordRedirect(table, notionId, from, to, async ids => {
+            for (const id of ids) {
+                await SnapshotService.captureRow(jobId, 'slug_redirects', id);
+            }
+        });
+    }
+}
@@ -0,0 +1,276 @@
+import { config } from '../config';
+import { jobsDb } from './JobStore';
+import { turso } from './TursoService';
+import { StorageService } from './StorageService';
+import { VectorizeService } from './VectorizeService';
+
+type SnapshotKind = 'row' | 'object' | 'vector';
+
+// Turso tables a job may overwrite, and the unique column rows are restored by
+const ROW_KEYS: Record<string, string> = {
+    studios: 'notion_id',
+    products: 'notion_id',
+    product_images: 'id',
+    product_embeddings: 'id',
+    spotlight: 'id',
+    slug_redirects: 'id',
+};
+
+export interface RollbackResult {
+    rows: { restored: number; deleted: number };
+    objects: { restored: number; deleted: number };
+    vectors: { restored: number; deleted: number };
+    errors: Array<{ kind: SnapshotKind; target: string; key: string; error: string }>;
+}
+
+// Snapshots already taken per job, so retries keep the value from before the job
+const captured = new Map<string, Set<string>>();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Previous Turso rows, R2 objects and vectors, captured before a job
+ * overwrites or removes them. `data` is null when the target did not exist,
+ * in which case rollback deletes it. Previous object bytes are kept as a
+ * server-side copy under <jobId>/ in the private R2_SNAPSHOT_BUCKET, and
+ * pruned with the rest of a job's snapshots after SNAPSHOT_RETENTION_DAYS.
+ * Without that bucket nothing is captured.
+ */
+export class SnapshotService {
+    static async init() {
+        await jobsDb.execute(`
+            CREATE TABLE IF NOT EXISTS job_snapshots (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                job_id TEXT NOT NULL,
+                kind TEXT NOT NULL,
+                target TEXT NOT NULL,
+                key TEXT NOT NULL,
+                data TEXT,
+                created_at TEXT NOT NULL,
+                UNIQUE (job_id, kind, target, key)
+            )
+        `);
+    }
+
+    /**
+     * Whether jobs keep snapshots and can be rolled back
+     */
+    static isEnabled(): boolean {
+        return Boolean(config.r2.snapshotBucket);
+    }
+
+    /**
+     * Drop the in-memory record of a finished job's snapshots
+     */
+    static release(jobId: string) {
+        captured.delete(jobId);
+    }
+
+    static async captureRow(jobId: string, table: string, key: string) {
+        if (!this.isEnabled()) return;
+        if (await this.isCaptured(jobId, 'row', table, key)) return;
+
+        const result = await turso.execute({
+            sql: `SELECT * FROM ${table} WHERE ${ROW_KEYS[table]} = ?`,
+            args: [key]
+        });
+        const row = result.rows[0];
+        await this.record(jobId, 'row', table, key, row ? { ...row } : null);
+    }
+
+    /**
+     * Capture every `product_images` row of a product, e.g. before they are deleted
+     */
+    static async captureProductImages(jobId: string, productId: string) {
+        if (!this.isEnabled()) return;
+        const result = await turso.execute({
+            sql: 'SELECT id FROM product_images WHERE product_id = ?',
+            args: [productId]
+        });
+        for (const row of result.rows) {
+            await this.captureRow(jobId, 'product_images', row['id'] as string);
+        }
+    }
+
+    /**
+     * Capture an object right before it is overwritten or deleted; objects a
+     * job leaves alone shouldn't be copied
+     */
+    static async captureObject(jobId: string, key: string, isMoodboard = false) {
+        const target = isMoodboard ? 'moodboard' : 'index';
+        if (!this.isEnabled() || await this.isCaptured(jobId, 'object', target, key)) return;
+
+        let snapshotKey: string | null = null;
+        if (await StorageService.exists(key, isMoodboard)) {
+            snapshotKey = `${jobId}/${target}/${key}`;
+            await StorageService.saveSnapshot(key, snapshotKey, isMoodboard);
+        }
+        await this.record(jobId, 'object', target, key, snapshotKey && { snapshotKey });
+    }
+
+    static async captureVectors(jobId: string, vectorIds: string[]) {
+        if (!this.isEnabled()) return;
+        const pending: string[] = [];
+        for (const id of vectorIds) {
+            if (!(await this.isCaptured(jobId, 'vector', 'vectorize', id))) pending.push(id);
+        }
+        if (pending.length === 0) return;
+
+        const existing = new Map((await VectorizeService.getByIds(pending)).map(vector => [vector.id, vector]));
+        for (const id of pending) {
+            const vector = existing.get(id);
+            await this.record(jobId, 'vector', 'vectorize', id, vector ? { values: vector.values, metadata: vector.metadata } : null);
+        }
+    }
+
+    /**
+     * Put every captured target back the way it was before the job, newest
+     * snapshot first. Failures are collected so one bad target doesn't stop the rest.
+     */
+    static async restore(jobId: string): Promise<RollbackResult> {
+        const result = await jobsDb.execute({
+            sql: 'SELECT * FROM job_snapshots WHERE job_id = ? ORDER BY id DESC',
+            args: [jobId]
+        });
+
+        const summary: RollbackResult = {
+            rows: { restored: 0, deleted: 0 },
+            objects: { restored: 0, deleted: 0 },
+            vectors: { restored: 0, deleted: 0 },
+            errors: [],
+        };
+
+        for (const snapshot of result.rows) {
+            const kind = snapshot['kind'] as SnapshotKind;
+            const target = snapshot['target'] as string;
+            const key = snapshot['key'] as string;
+            const data = snapshot['data'] ? JSON.parse(snapshot['data'] as string) : null;
+
+            try {
+                if (kind === 'row') {
+                    await this.restoreRow(target, key, data);
+                    summary.rows[data ? 'restored' : 'deleted']++;
+                } else if (kind === 'object') {
+                    const isMoodboard = target === 'moodboard';
+                    if (data) {
+                        await StorageService.restoreSnapshot(data.snapshotKey, key, isMoodboard);
+                        await StorageService.deleteSnapshot(data.snapshotKey);
+                    } else {
+                        await StorageService.delete(key, isMoodboard);
+                    }
+                    summary.objects[data ? 'restored' : 'deleted']++;
+                } else {
+                    if (data) await VectorizeService.upsert(key, data.values, data.metadata);
+                    else await VectorizeService.deleteByIds([key]);
+                    summary.vectors[data ? 'restored' : 'deleted']++;
+                }
+            } catch (err: any) {
+                console.error(`Failed to restore ${kind} ${target}/${key} for job ${jobId}:`, err);
+                summary.errors.push({ kind, target, key, error: err.message });
+            }
+        }
+
+        return summary;
+    }
+
+    /**
+     * Whether a job finished long enough ago for its snapshots to be pruned
+     */
+    static isExpired(job: { endTime?: string }): boolean {
+        return Boolean(job.endTime)
+            && Date.parse(job.endTime!) < Date.now() - config.migration.snapshotRetentionDays * DAY_MS;
+    }
+
+    /**
+     * Delete the snapshots of jobs that finished more than SNAPSHOT_RETENTION_DAYS
+     * ago, object copies first. A job whose copies can't all be deleted keeps
+     * its rows, so the next run tries again.
+     * @returns the number of jobs pruned
+     */
+    static async prune(): Promise<number> {
+        const cutoff = new Date(Date.now() - config.migration.snapshotRetentionDays * DAY_MS).toISOString();
+        const result = await jobsDb.execute({
+            sql: `
+                SELECT DISTINCT s.job_id FROM job_snapshots s
+                LEFT JOIN migration_jobs j ON j.id = s.job_id
+                WHERE s.created_at < ?
+                    AND (j.id IS NULL OR (j.status IN ('completed', 'failed', 'cancelled') AND j.end_time < ?))
+            `,
+            args: [cutoff, cutoff]
+        });
+
+        let pruned = 0;
+        for (const row of result.rows) {
+            const jobId = row['job_id'] as string;
+            try {
+                const objects = await jobsDb.execute({
+                    sql: "SELECT data FROM job_snapshots WHERE job_id = ? AND kind = 'object' AND data IS NOT NULL",
+                    args: [jobId]
+                });
+                for (const object of objects.rows) {
+                    await StorageService.deleteSnapshot(JSON.parse(object['data'] as string).snapshotKey);
+                }
+                await jobsDb.execute({ sql: 'DELETE FROM job_snapshots WHERE job_id = ?', args: [jobId] });
+                this.release(jobId);
+                pruned++;
+            } catch (err: any) {
+                console.error(`Failed to prune snapshots of job ${jobId}:`, err);
+            }
+        }
+        if (pruned > 0) console.log(`Pruned the snapshots of ${pruned} job(s) older than ${config.migration.snapshotRetentionDays} days`);
+        return pruned;
+    }
+
+    private static async restoreRow(table: string, key: string, row: Record<string, any> | null) {
+        const keyColumn = ROW_KEYS[table];
+
+        if (!row) {
+            await turso.execute({ sql: `DELETE FROM ${table} WHERE ${keyColumn} = ?`, args: [key] });
+            return;
+        }
+
+        // Upsert rather than REPLACE, which would cascade-delete child rows
+        const columns = Object.keys(row);
+        await turso.execute({
+            sql: `
+                INSERT INTO ${table} (${columns.join(', ')})
+                VALUES (${columns.map(() => '?').join(', ')})
+                ON CONFLICT(${keyColumn}) DO UPDATE SET
+                    ${columns.filter(c => c !== keyColumn).map(c => `${c}=excluded.${c}`).join(', ')}
+            `,
+            args: columns.map(c => row[c] ?? null)
+        });
+    }
+
+    private static async isCaptured(jobId: string, kind: SnapshotKind, target: string, key: string) {
+        if (captured.get(jobId)?.has(`${kind}|${target}|${key}`)) return true;
+
+        // A resumed job may have captured it before the restart
+        const result = await jobsDb.execute({
+            sql: 'SELECT 1 FROM job_snapshots WHERE job_id = ? AND kind = ? AND target = ? AND key = ?',
+            args: [jobId, kind, target, key]
+        });
+        if (result.rows.length > 0) this.markCaptured(jobId, kind, target, key);
+        return result.rows.length > 0;
+    }
+
+    private static async record(jobId: string, kind: SnapshotKind, target: string, key: string, data: any) {
+        await jobsDb.execute({
+            sql: `
+                INSERT OR IGNORE INTO job_snapshots (job_id, kind, target, key, data, created_at)
+                VALUES (?, ?, ?, ?, ?, ?)
+            `,
+            args: [jobId, kind, target, key, data ? JSON.stringify(data) : null, new Date().toISOString()]
+        });
+        this.markCaptured(jobId, kind, target, key);
+    }
+
+    private static markCaptured(jobId: string, kind: SnapshotKind, target: string, key: string) {
+        let keys = captured.get(jobId);
+        if (!keys) {
+            keys = new Set();
+            captured.set(jobId, keys);
+        }
+        keys.add(`${kind}|${target}|${key}`);
+    }
+}
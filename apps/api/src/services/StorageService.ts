@@ -1,4 +1,5 @@
-import { S3Client, PutObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
+import { S3Client, PutObjectCommand, HeadObjectCommand, DeleteObjectCommand, CopyObjectCommand } from '@aws-sdk/client-s3';
+import { RateLimiter } from '@repo/shared-types';
 import { config } from '../config';
 
 const R2 = new S3Client({
@@ -10,6 +11,8 @@ const R2 = new S3Client({
     },
 });
 
+const r2Limiter = new RateLimiter(config.rateLimits.r2);
+
 export class StorageService {
     static async upload(key: string, body: Buffer | Uint8Array, contentType: string, isMoodboard = false) {
         try {
@@ -19,6 +22,7 @@ export class StorageService {
             // Check if file exists
             const exists = await this.exists(key, isMoodboard);
 
+            await r2Limiter.acquire();
             await R2.send(new PutObjectCommand({
                 Bucket: bucket as string,
                 Key: key,
@@ -37,6 +41,7 @@ export class StorageService {
     static async exists(key: string, isMoodboard = false): Promise<boolean> {
         try {
             const bucket = isMoodboard ? config.r2.bucketMoodboard : config.r2.bucketIndex;
+            await r2Limiter.acquire();
             await R2.send(new HeadObjectCommand({
                 Bucket: bucket as string,
                 Key: key
@@ -47,4 +52,83 @@ export class StorageService {
             throw error;
         }
     }
+
+    static async delete(key: string, isMoodboard = false) {
+        try {
+            const bucket = isMoodboard ? config.r2.bucketMoodboard : config.r2.bucketIndex;
+            await r2Limiter.acquire();
+            await R2.send(new DeleteObjectCommand({
+                Bucket: bucket as string,
+                Key: key
+            }));
+        } catch (error) {
+            console.error('Error deleting from R2:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Server-side copy within the same bucket
+     */
+    static async copy(fromKey: string, toKey: string, isMoodboard = false) {
+        const bucket = isMoodboard ? config.r2.bucketMoodboard : config.r2.bucketIndex;
+        await this.copyObject(bucket as string, fromKey, bucket as string, toKey);
+    }
+
+    /**
+     * Copy an object into the private snapshot bucket
+     */
+    static async saveSnapshot(key: string, snapshotKey: string, isMoodboard = false) {
+        const bucket = isMoodboard ? config.r2.bucketMoodboard : config.r2.bucketIndex;
+        await this.copyObject(bucket as string, key, config.r2.snapshotBucket as string, snapshotKey);
+    }
+
+    /**
+     * Copy a snapshot back over the object it was taken of
+     */
+    static async restoreSnapshot(snapshotKey: string, key: string, isMoodboard = false) {
+        const bucket = isMoodboard ? config.r2.bucketMoodboard : config.r2.bucketIndex;
+        await this.copyObject(config.r2.snapshotBucket as string, snapshotKey, bucket as string, key);
+    }
+
+    static async deleteSnapshot(snapshotKey: string) {
+        try {
+            await r2Limiter.acquire();
+            await R2.send(new DeleteObjectCommand({
+                Bucket: config.r2.snapshotBucket as string,
+                Key: snapshotKey
+            }));
+        } catch (error) {
+            console.error('Error deleting R2 snapshot:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Move an object under quarantine/ in the private snapshot bucket, so it's
+     * no longer served but can be restored
+     */
+    static async quarantine(key: string, isMoodboard = false) {
+        const quarantineKey = `quarantine/${isMoodboard ? 'moodboard' : 'index'}/${key}`;
+
+        if (!(await this.exists(key, isMoodboard))) return null;
+
+        await this.saveSnapshot(key, quarantineKey, isMoodboard);
+        await this.delete(key, isMoodboard);
+        return quarantineKey;
+    }
+
+    private static async copyObject(fromBucket: string, fromKey: string, toBucket: string, toKey: string) {
+        try {
+            await r2Limiter.acquire();
+            await R2.send(new CopyObjectCommand({
+                Bucket: toBucket,
+                CopySource: `${fromBucket}/${encodeURI(fromKey)}`,
+                Key: toKey
+            }));
+        } catch (error) {
+            console.error('Error copying R2 object:', error);
+            throw error;
+        }
+    }
 }
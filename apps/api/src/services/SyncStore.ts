@@ -0,0 +1,62 @@
+import { jobsDb, JobType } from './JobStore';
+
+export interface SyncWatermark {
+    type: JobType;
+    // Start time of the last successful sync; Notion edits after it are picked up next time
+    watermark: string;
+    jobId: string | null;
+    updatedAt: string;
+}
+
+function toWatermark(row: Record<string, any>): SyncWatermark {
+    return {
+        type: row['type'] as JobType,
+        watermark: row['watermark'] as string,
+        jobId: (row['job_id'] as string) ?? null,
+        updatedAt: row['updated_at'] as string,
+    };
+}
+
+/**
+ * Incremental sync watermarks, one per content type, kept next to the job store
+ */
+export class SyncStore {
+    static async init() {
+        await jobsDb.execute(`
+            CREATE TABLE IF NOT EXISTS sync_watermarks (
+                type TEXT PRIMARY KEY,
+                watermark TEXT NOT NULL,
+                job_id TEXT,
+                updated_at TEXT NOT NULL
+            )
+        `);
+    }
+
+    static async get(type: JobType): Promise<SyncWatermark | null> {
+        const result = await jobsDb.execute({
+            sql: 'SELECT * FROM sync_watermarks WHERE type = ?',
+            args: [type]
+        });
+        const row = result.rows[0];
+        return row ? toWatermark(row) : null;
+    }
+
+    static async list(): Promise<SyncWatermark[]> {
+        const result = await jobsDb.execute('SELECT * FROM sync_watermarks ORDER BY type');
+        return result.rows.map(toWatermark);
+    }
+
+    static async set(type: JobType, watermark: string, jobId: string | null) {
+        await jobsDb.execute({
+            sql: `
+                INSERT INTO sync_watermarks (type, watermark, job_id, updated_at)
+                VALUES (?, ?, ?, ?)
+                ON CONFLICT(type) DO UPDATE SET
+                    watermark=excluded.watermark,
+                    job_id=excluded.job_id,
+                    updated_at=excluded.updated_at
+            `,
+            args: [type, watermark, jobId, new Date().toISOString()]
+        });
+    }
+}
@@ -6,16 +6,26 @@ export const turso = createClient({
     authToken: config.turso.authToken,
 });
 
+// Table per content type and the column holding the Notion page ID
+// (spotlight rows use the page ID as their primary key)
+const TABLES = {
+    designer: { table: 'studios', key: 'notion_id' },
+    moodboard: { table: 'products', key: 'notion_id' },
+    spotlight: { table: 'spotlight', key: 'id' },
+};
+
+export type ContentTable = keyof typeof TABLES;
+
 export class TursoService {
-    static async checkStatus(notionIds: string[], type: 'designer' | 'moodboard') {
+    static async checkStatus(notionIds: string[], type: ContentTable) {
         if (notionIds.length === 0) return { statuses: {} };
 
-        const table = type === 'designer' ? 'studios' : 'products';
+        const { table, key } = TABLES[type];
         const placeholders = notionIds.map(() => '?').join(',');
 
         try {
             const result = await turso.execute({
-                sql: `SELECT notion_id, updated_at, content_hash FROM ${table} WHERE notion_id IN (${placeholders})`,
+                sql: `SELECT ${key} AS notion_id, updated_at, content_hash FROM ${table} WHERE ${key} IN (${placeholders})`,
                 args: notionIds
             });
 
@@ -41,4 +51,55 @@ export class TursoService {
             return { statuses: {} };
         }
     }
+
+    /**
+     * Full `studios`/`products`/`spotlight` rows keyed by notion_id
+     */
+    static async getByNotionIds(notionIds: string[], type: ContentTable) {
+        const rows: Record<string, Record<string, any>> = {};
+        if (notionIds.length === 0) return rows;
+
+        const { table, key } = TABLES[type];
+        const placeholders = notionIds.map(() => '?').join(',');
+
+        const result = await turso.execute({
+            sql: `SELECT * FROM ${table} WHERE ${key} IN (${placeholders})`,
+            args: notionIds
+        });
+
+        result.rows.forEach(row => {
+            const notionId = row[key] as string;
+            rows[notionId] = { notion_id: notionId, ...row };
+        });
+        return rows;
+    }
+
+    /**
+     * Notion IDs of every studio/product currently live on the site
+     */
+    static async getPublishedNotionIds(type: 'designer' | 'moodboard'): Promise<string[]> {
+        const { table } = TABLES[type];
+        const result = await turso.execute(`SELECT notion_id FROM ${table} WHERE status = 'Published'`);
+        return result.rows.map(row => row['notion_id'] as string);
+    }
+
+    /**
+     * `product_images` rows grouped by product_id, ordered by position
+     */
+    static async getProductImages(productIds: string[]) {
+        const images: Record<string, Array<Record<string, any>>> = {};
+        if (productIds.length === 0) return images;
+
+        const placeholders = productIds.map(() => '?').join(',');
+        const result = await turso.execute({
+            sql: `SELECT * FROM product_images WHERE product_id IN (${placeholders}) ORDER BY position`,
+            args: productIds
+        });
+
+        result.rows.forEach(row => {
+            const productId = row['product_id'] as string;
+            (images[productId] ||= []).push({ ...row });
+        });
+        return images;
+    }
 }
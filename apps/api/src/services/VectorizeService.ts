@@ -1,4 +1,9 @@
+import { RateLimiter } from '@repo/shared-types';
 import { config } from '../config';
+import { HttpError } from '../lib/errors';
+
+const embeddingLimiter = new RateLimiter(config.rateLimits.embeddings);
+const vectorizeLimiter = new RateLimiter(config.rateLimits.vectorize);
 
 export class VectorizeService {
     private static API_URL = config.vectorize.accountId
@@ -9,11 +14,21 @@ export class VectorizeService {
         ? `https://api.cloudflare.com/client/v4/accounts/${config.vectorize.accountId}/ai/run/@cf/qwen/qwen3-embedding-0.6b`
         : null;
 
+    private static INDEX_NAME = 'ai-search-optimus';
+
+    /**
+     * Vectorize is optional; without it, steps that only touch vectors are skipped
+     */
+    static isConfigured(): boolean {
+        return !!this.API_URL && !!config.vectorize.token;
+    }
+
     static async generateEmbedding(text: string): Promise<number[]> {
         if (!this.AI_URL || !config.vectorize.token) {
             throw new Error('Cloudflare AI configuration missing');
         }
 
+        await embeddingLimiter.acquire();
         const response = await fetch(this.AI_URL, {
             method: 'POST',
             headers: {
@@ -25,7 +40,7 @@ export class VectorizeService {
 
         if (!response.ok) {
             const err = await response.text();
-            throw new Error(`Embedding API error: ${response.statusText} - ${err}`);
+            throw new HttpError(`Embedding API error: ${response.statusText} - ${err}`, response.status);
         }
 
         const data: any = await response.json();
@@ -43,7 +58,8 @@ export class VectorizeService {
             throw new Error('Cloudflare Vectorize configuration missing');
         }
 
-        const response = await fetch(`${this.API_URL}/indexes/ai-search-optimus/upsert`, {
+        await vectorizeLimiter.acquire();
+        const response = await fetch(`${this.API_URL}/indexes/${this.INDEX_NAME}/upsert`, {
             method: 'POST',
             headers: {
                 'Authorization': `Bearer ${config.vectorize.token}`,
@@ -62,7 +78,59 @@ export class VectorizeService {
 
         if (!response.ok) {
             const err = await response.text();
-            throw new Error(`Vectorize Upsert error: ${response.statusText} - ${err}`);
+            throw new HttpError(`Vectorize Upsert error: ${response.statusText} - ${err}`, response.status);
+        }
+
+        return await response.json();
+    }
+
+    /**
+     * Stored vectors with their values and metadata; unknown IDs are omitted
+     */
+    static async getByIds(vectorIds: string[]): Promise<Array<{ id: string; values: number[]; metadata?: any }>> {
+        if (vectorIds.length === 0) return [];
+        if (!this.API_URL || !config.vectorize.token) {
+            throw new Error('Cloudflare Vectorize configuration missing');
+        }
+
+        await vectorizeLimiter.acquire();
+        const response = await fetch(`${this.API_URL}/indexes/${this.INDEX_NAME}/get_by_ids`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${config.vectorize.token}`,
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ ids: vectorIds })
+        });
+
+        if (!response.ok) {
+            const err = await response.text();
+            throw new HttpError(`Vectorize Get error: ${response.statusText} - ${err}`, response.status);
+        }
+
+        const data: any = await response.json();
+        return data.result || [];
+    }
+
+    static async deleteByIds(vectorIds: string[]) {
+        if (vectorIds.length === 0) return null;
+        if (!this.API_URL || !config.vectorize.token) {
+            throw new Error('Cloudflare Vectorize configuration missing');
+        }
+
+        await vectorizeLimiter.acquire();
+        const response = await fetch(`${this.API_URL}/indexes/${this.INDEX_NAME}/delete_by_ids`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${config.vectorize.token}`,
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ ids: vectorIds })
+        });
+
+        if (!response.ok) {
+            const err = await response.text();
+            throw new HttpError(`Vectorize Delete error: ${response.statusText} - ${err}`, response.status);
         }
 
         return await response.json();
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { cronMatches, nextCronRun, parseCron } from '../../src/lib/cron';
+
+// Local time, as cron expressions are evaluated in the server's time zone
+const at = (year: number, month: number, day: number, hour = 0, minute = 0) => new Date(year, month - 1, day, hour, minute);
+
+describe('parseCron', () => {
+    it('expands wildcards, lists, ranges and steps', () => {
+        const cron = parseCron('*/15 8-10 1,15 * 1-5');
+        expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+        expect([...cron.hours]).toEqual([8, 9, 10]);
+        expect([...cron.daysOfMonth]).toEqual([1, 15]);
+        expect(cron.months.size).toBe(12);
+        expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+        expect(cron.dayOfMonthRestricted).toBe(true);
+        expect(cron.dayOfWeekRestricted).toBe(true);
+    });
+
+    it('reads a start with a step as every step from the start', () => {
+        expect([...parseCron('5/20 * * * *').minutes]).toEqual([5, 25, 45]);
+    });
+
+    it('treats 7 as Sunday', () => {
+        expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+    });
+
+    it.each([
+        ['0 3 * *', /must have 5 fields/],
+        ['60 * * * *', /Invalid minute "60"/],
+        ['* 24 * * *', /Invalid hour/],
+        ['* * 0 * *', /Invalid day of month/],
+        ['* * * 13 *', /Invalid month/],
+        ['* * * * 8', /Invalid day of week/],
+        ['10-5 * * * *', /Invalid minute/],
+        ['*/0 * * * *', /Invalid minute/],
+        ['a * * * *', /Invalid minute/],
+    ])('rejects "%s"', (expr, message) => {
+        expect(() => parseCron(expr)).toThrow(message);
+    });
+});
+
+describe('cronMatches', () => {
+    it('matches on minute, hour and month', () => {
+        const cron = parseCron('30 3 * 6 *');
+        expect(cronMatches(cron, at(2026, 6, 10, 3, 30))).toBe(true);
+        expect(cronMatches(cron, at(2026, 6, 10, 3, 31))).toBe(false);
+        expect(cronMatches(cron, at(2026, 7, 10, 3, 30))).toBe(false);
+    });
+
+    it('matches either day field when both are restricted', () => {
+        // The 13th, or any Friday
+        const cron = parseCron('0 0 13 * 5');
+        expect(cronMatches(cron, at(2026, 1, 13))).toBe(true); // Tuesday
+        expect(cronMatches(cron, at(2026, 1, 16))).toBe(true); // Friday
+        expect(cronMatches(cron, at(2026, 1, 14))).toBe(false);
+    });
+
+    it('requires the restricted day field when the other is a wildcard', () => {
+        const cron = parseCron('0 0 * * 1');
+        expect(cronMatches(cron, at(2026, 1, 12))).toBe(true); // Monday
+        expect(cronMatches(cron, at(2026, 1, 13))).toBe(false);
+    });
+});
+
+describe('nextCronRun', () => {
+    it('returns the next matching minute strictly after the given time', () => {
+        const cron = parseCron('0 3 * * *');
+        expect(nextCronRun(cron, at(2026, 1, 1, 2, 59))).toEqual(at(2026, 1, 1, 3, 0));
+        expect(nextCronRun(cron, at(2026, 1, 1, 3, 0))).toEqual(at(2026, 1, 2, 3, 0));
+    });
+
+    it('ignores the seconds of the start time', () => {
+        const from = at(2026, 1, 1, 10, 14);
+        from.setSeconds(59, 999);
+        expect(nextCronRun(parseCron('*/15 * * * *'), from)).toEqual(at(2026, 1, 1, 10, 15));
+    });
+
+    it('returns null when nothing matches within a year', () => {
+        expect(nextCronRun(parseCron('0 0 31 2 *'), at(2026, 1, 1))).toBeNull();
+    });
+});
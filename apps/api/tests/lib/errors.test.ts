@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { HttpError, StepError, classifyError, isExpiredSignedUrl } from '../../src/lib/errors';
+
+const withName = (name: string, message = '') => Object.assign(new Error(message), { name });
+const withCode = (code: string) => Object.assign(new Error('request failed'), { code });
+
+describe('classifyError', () => {
+    it.each([
+        [401, 'auth'],
+        [403, 'auth'],
+        [404, 'not-found'],
+        [410, 'not-found'],
+        [408, 'transient'],
+        [429, 'transient'],
+        [500, 'transient'],
+        [503, 'transient'],
+        [400, 'validation'],
+        [422, 'validation'],
+    ])('classifies HTTP %i as %s', (status, kind) => {
+        expect(classifyError(new HttpError('upstream error', status))).toBe(kind);
+    });
+
+    it('reads the status of SDK and fetch errors', () => {
+        expect(classifyError({ statusCode: 503 })).toBe('transient');
+        expect(classifyError({ $metadata: { httpStatusCode: 403 } })).toBe('auth');
+        expect(classifyError({ response: { status: 404 } })).toBe('not-found');
+    });
+
+    it('treats an expired signed URL as transient, as a fresh URL fixes it', () => {
+        const err = new HttpError('Request has expired', 403);
+        expect(isExpiredSignedUrl(err)).toBe(true);
+        expect(classifyError(err)).toBe('transient');
+    });
+
+    it('classifies network failures as transient', () => {
+        expect(classifyError(withCode('ECONNRESET'))).toBe('transient');
+        expect(classifyError({ message: 'fetch failed', cause: { code: 'UND_ERR_SOCKET' } })).toBe('transient');
+        expect(classifyError(withName('AbortError'))).toBe('transient');
+        expect(classifyError(withName('TimeoutError'))).toBe('transient');
+        expect(classifyError(new Error('socket hang up'))).toBe('transient');
+    });
+
+    it('classifies missing R2 objects as not found', () => {
+        expect(classifyError(withName('NoSuchKey'))).toBe('not-found');
+        expect(classifyError(withName('NotFound'))).toBe('not-found');
+    });
+
+    it('falls back to the message, then to validation', () => {
+        expect(classifyError(new Error('Unauthorized'))).toBe('auth');
+        expect(classifyError(new Error('Page not found'))).toBe('not-found');
+        expect(classifyError(new Error('UNIQUE constraint failed: studios.slug'))).toBe('validation');
+        expect(classifyError('something odd')).toBe('validation');
+    });
+
+    it('keeps the kind of a StepError', () => {
+        expect(classifyError(new StepError('upload', 'auth', 1, new Error('boom')))).toBe('auth');
+    });
+});
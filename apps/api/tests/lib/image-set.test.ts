@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { planImageSet, productImageId, productImageKey } from '../../src/lib/image-set';
+
+const url = (name: string) => `https://files.notion.so/secure/${name}.jpg?X-Amz-Signature=${Math.random()}`;
+
+const row = (productId: string, slug: string, position: number, name: string) => ({
+    id: productImageId(productId, position),
+    product_id: productId,
+    position,
+    r2_key: productImageKey(slug, position),
+    original_notion_url: url(name),
+});
+
+describe('planImageSet', () => {
+    it('plans new images at their position', () => {
+        const plan = planImageSet('p1', 'chair', [{ url: url('a') }, { url: url('b') }], []);
+        expect(plan.images).toEqual([
+            { index: 0, id: 'p1_0', r2Key: 'moodboard/chair/0.webp' },
+            { index: 1, id: 'p1_1', r2Key: 'moodboard/chair/1.webp' },
+        ]);
+        expect(plan.stale).toEqual({ rowIds: [], r2Keys: [], vectorIds: [] });
+    });
+
+    it('keeps images that stayed in place, ignoring the signed query string', () => {
+        const rows = [row('p1', 'chair', 0, 'a'), row('p1', 'chair', 1, 'b')];
+        const plan = planImageSet('p1', 'chair', [{ url: url('a') }, { url: url('b') }], rows);
+        expect(plan.images.every(img => !img.movedFrom)).toBe(true);
+        expect(plan.stale.rowIds).toEqual([]);
+    });
+
+    it('copies reordered images from their previous key', () => {
+        const rows = [row('p1', 'chair', 0, 'a'), row('p1', 'chair', 1, 'b')];
+        const plan = planImageSet('p1', 'chair', [{ url: url('b') }, { url: url('a') }], rows);
+        expect(plan.images[0].movedFrom).toMatchObject({ position: 1, r2Key: 'moodboard/chair/1.webp' });
+        expect(plan.images[1].movedFrom).toMatchObject({ position: 0, r2Key: 'moodboard/chair/0.webp' });
+        // Both keys are reused, so nothing is stale
+        expect(plan.stale).toEqual({ rowIds: [], r2Keys: [], vectorIds: [] });
+    });
+
+    it('copies images to the new keys when the slug changed', () => {
+        const rows = [row('p1', 'chair', 0, 'a')];
+        const plan = planImageSet('p1', 'armchair', [{ url: url('a') }], rows);
+        expect(plan.images[0]).toMatchObject({ r2Key: 'moodboard/armchair/0.webp', movedFrom: { position: 0, r2Key: 'moodboard/chair/0.webp' } });
+        expect(plan.stale).toEqual({ rowIds: [], r2Keys: ['moodboard/chair/0.webp'], vectorIds: [] });
+    });
+
+    it('marks rows, objects and vectors beyond the new image count as stale', () => {
+        const rows = [row('p1', 'chair', 0, 'a'), row('p1', 'chair', 1, 'b'), row('p1', 'chair', 2, 'c')];
+        const plan = planImageSet('p1', 'chair', [{ url: url('c') }], rows);
+        expect(plan.images[0].movedFrom).toMatchObject({ position: 2 });
+        expect(plan.stale).toEqual({
+            rowIds: ['p1_1', 'p1_2'],
+            r2Keys: ['moodboard/chair/1.webp', 'moodboard/chair/2.webp'],
+            vectorIds: ['p1_1', 'p1_2'],
+        });
+    });
+
+    it('carries the source hash of moved images so they are not re-embedded', () => {
+        const rows = [{ ...row('p1', 'chair', 0, 'a'), source_hash: 'hash-a' }, row('p1', 'chair', 1, 'b')];
+        const plan = planImageSet('p1', 'chair', [{ url: url('b') }, { url: url('a') }], rows);
+        expect(plan.images[0].movedFrom?.sourceHash).toBeNull();
+        expect(plan.images[1].movedFrom?.sourceHash).toBe('hash-a');
+    });
+
+    it('prefers the row already at the position for duplicate images', () => {
+        const rows = [row('p1', 'chair', 0, 'a'), row('p1', 'chair', 1, 'a')];
+        const plan = planImageSet('p1', 'chair', [{ url: url('b') }, { url: url('a') }], rows);
+        expect(plan.images[0].movedFrom).toBeUndefined();
+        expect(plan.images[1].movedFrom).toBeUndefined();
+    });
+});
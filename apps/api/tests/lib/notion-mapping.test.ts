@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import {
+    DEFAULT_NOTION_MAPPINGS,
+    buildWriteBackProperties,
+    checkNotionMapping,
+    parseNotionMappings,
+    parseWriteBack,
+    readNotionField
+} from '../../src/lib/notion-mapping';
+
+describe('parseNotionMappings', () => {
+    it('returns the defaults for an empty override', () => {
+        expect(parseNotionMappings('{}')).toEqual(DEFAULT_NOTION_MAPPINGS);
+    });
+
+    it('merges overrides into the default spec of a field', () => {
+        const mappings = parseNotionMappings('{ "designers": { "website": { "property": "Site" } } }');
+        expect(mappings.designers.website).toEqual({ property: 'Site', type: 'url', optional: true });
+        expect(mappings.designers.name).toEqual(DEFAULT_NOTION_MAPPINGS.designers.name);
+    });
+
+    it('does not change the defaults', () => {
+        parseNotionMappings('{ "moodboard": { "name": { "property": "Title" } } }');
+        expect(DEFAULT_NOTION_MAPPINGS.moodboard.name.property).toBe('Name');
+    });
+
+    it.each([
+        ['not json', /not valid JSON/],
+        ['[]', /must be a JSON object/],
+        ['{ "studios": {} }', /unknown content type "studios"/],
+        ['{ "designers": { "phone": { "property": "Phone" } } }', /designers.phone: unknown field/],
+        ['{ "designers": { "city": "City" } }', /designers.city: must be an object/],
+        ['{ "designers": { "city": { "property": "" } } }', /property must be a non-empty string/],
+        ['{ "designers": { "city": { "type": "formula" } } }', /type must be one of/],
+        ['{ "designers": { "city": { "transform": "upper" } } }', /transform must be one of/],
+    ])('rejects %s', (raw, message) => {
+        expect(() => parseNotionMappings(raw)).toThrow(message);
+    });
+});
+
+describe('checkNotionMapping', () => {
+    const mapping = {
+        name: { type: 'title' as const },
+        city: { property: 'City', type: ['select' as const, 'rich_text' as const], optional: true },
+        images: { property: ['Image', 'Cover'], type: 'files' as const },
+        status: { property: 'Status', type: 'status' as const },
+    };
+
+    it('resolves each field to the property it reads', () => {
+        const { errors, warnings, resolved } = checkNotionMapping(mapping, {
+            Title: { type: 'title' },
+            City: { type: 'rich_text' },
+            Cover: { type: 'files' },
+            Status: { type: 'status' },
+        });
+        expect(errors).toEqual([]);
+        expect(warnings).toEqual([]);
+        expect(resolved).toEqual({
+            name: { property: 'Title', type: 'title' },
+            city: { property: 'City', type: 'rich_text' },
+            images: { property: 'Cover', type: 'files' },
+            status: { property: 'Status', type: 'status' },
+        });
+    });
+
+    it('warns about missing optional properties and fails on missing or mistyped ones', () => {
+        const { errors, warnings, resolved } = checkNotionMapping(mapping, {
+            Name: { type: 'title' },
+            Status: { type: 'select' },
+        });
+        expect(warnings).toEqual(['city: property "City" not found']);
+        expect(errors).toEqual([
+            'images: property "Image" or "Cover" not found',
+            'status: property "Status" is select, expected status',
+        ]);
+        expect(resolved.city).toBeNull();
+        expect(resolved.status).toBeNull();
+    });
+});
+
+describe('readNotionField', () => {
+    const properties = {
+        Name: { type: 'title', title: [{ plain_text: 'Studio ' }, { plain_text: 'Nord' }] },
+        Cover: { type: 'files', files: [{ file: { url: 'https://a' } }, { external: { url: 'https://b' } }] },
+        Date: { type: 'date', date: { start: '2026-01-01', end: null } },
+    };
+
+    it('reads values by property type and applies the transform', () => {
+        expect(readNotionField(properties, { type: 'title' })).toBe('Studio Nord');
+        expect(readNotionField(properties, { property: 'Cover', type: 'files' })).toEqual(['https://a', 'https://b']);
+        expect(readNotionField(properties, { property: 'Cover', type: 'files', transform: 'first' })).toBe('https://a');
+        expect(readNotionField(properties, { property: 'Date', type: 'date', transform: 'start' })).toBe('2026-01-01');
+    });
+
+    it('reads missing or mistyped properties as undefined', () => {
+        expect(readNotionField(properties, { property: 'City', type: 'select' })).toBeUndefined();
+        expect(readNotionField(properties, { property: 'Cover', type: 'url' })).toBeUndefined();
+    });
+});
+
+describe('parseWriteBack', () => {
+    it('maps each listed field to its property with the accepted types', () => {
+        const configs = parseWriteBack(JSON.stringify({
+            moodboard: { migratedAt: 'Migrated at', liveUrl: 'Live URL', urlTemplate: 'https://example.com/moodboard/{slug}' },
+            designers: { enabled: false, migratedAt: 'Migrated at' },
+        }));
+        expect(configs).toEqual({
+            moodboard: {
+                mapping: {
+                    migratedAt: { property: 'Migrated at', type: ['date'] },
+                    liveUrl: { property: 'Live URL', type: ['url', 'rich_text'] },
+                },
+                urlTemplate: 'https://example.com/moodboard/{slug}',
+            },
+        });
+    });
+
+    it.each([
+        ['not json', /not valid JSON/],
+        ['{ "studios": { "migratedAt": "Migrated" } }', /studios: unknown content type/],
+        ['{ "moodboard": { "status": "Status" } }', /moodboard.status: unknown field/],
+        ['{ "moodboard": { "migratedAt": "" } }', /moodboard.migratedAt: must be a Notion property name/],
+        ['{ "moodboard": { "liveUrl": "URL", "urlTemplate": "https://example.com" } }', /urlTemplate must be a string containing \{slug\}/],
+        ['{ "spotlight": { "liveUrl": "URL" } }', /spotlight entries have no page of their own/],
+        ['{ "moodboard": {} }', /moodboard: no properties to write/],
+    ])('rejects %s', (raw, message) => {
+        expect(() => parseWriteBack(raw)).toThrow(message);
+    });
+});
+
+describe('buildWriteBackProperties', () => {
+    it('writes each value in the format of its resolved property, skipping undefined and unresolved fields', () => {
+        const properties = buildWriteBackProperties(
+            { migratedAt: '2026-01-01T00:00:00Z', liveUrl: 'chair', lastError: null, needsResync: false },
+            {
+                migratedAt: { property: 'Migrated at', type: 'date' },
+                liveUrl: { property: 'Live URL', type: 'rich_text' },
+                lastError: { property: 'Error', type: 'rich_text' },
+                needsResync: null,
+            }
+        );
+        expect(properties).toEqual({
+            'Migrated at': { date: { start: '2026-01-01T00:00:00Z' } },
+            'Live URL': { rich_text: [{ text: { content: 'chair' } }] },
+            'Error': { rich_text: [] },
+        });
+    });
+});
@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from '../../src/config';
+import { HttpError, StepError } from '../../src/lib/errors';
+import { withRetry } from '../../src/lib/retry';
+
+describe('withRetry', () => {
+    beforeEach(() => {
+        config.migration.retry.baseDelayMs = 1;
+        config.migration.retry.maxDelayMs = 1;
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    it('retries transient failures until the step succeeds', async () => {
+        const onRetry = vi.fn();
+        const fn = vi.fn(async (attempt: number) => {
+            if (attempt < 3) throw new HttpError('Service Unavailable', 503);
+            return 'done';
+        });
+
+        expect(await withRetry('upload', fn, { attempts: 4, onRetry })).toBe('done');
+        expect(fn).toHaveBeenCalledTimes(3);
+        expect(onRetry).toHaveBeenCalledTimes(2);
+        expect(onRetry.mock.calls[0].slice(1, 3)).toEqual(['transient', 1]);
+    });
+
+    it('fails at once on errors that are not transient', async () => {
+        const fn = vi.fn(async () => { throw new HttpError('Bad Request', 400); });
+
+        const err = await withRetry('turso', fn, { attempts: 4 }).catch(e => e);
+        expect(err).toBeInstanceOf(StepError);
+        expect(err).toMatchObject({ step: 'turso', kind: 'validation', attempts: 1, message: 'Bad Request' });
+        expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('gives up after the configured attempts', async () => {
+        const fn = vi.fn(async () => { throw new HttpError('Too Many Requests', 429); });
+
+        const err = await withRetry('embed', fn, { attempts: 3 }).catch(e => e);
+        expect(err).toMatchObject({ kind: 'transient', attempts: 3 });
+        expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    it('uses isRetryable and runs beforeRetry ahead of each retry', async () => {
+        const calls: string[] = [];
+        const fn = vi.fn(async (attempt: number) => {
+            calls.push(`attempt ${attempt}`);
+            if (attempt === 1) throw new HttpError('Forbidden', 403);
+            return attempt;
+        });
+
+        const result = await withRetry('download', fn, {
+            attempts: 2,
+            isRetryable: (_err, kind) => kind === 'auth',
+            beforeRetry: async (_err, attempt) => { calls.push(`refresh after ${attempt}`); },
+        });
+        expect(result).toBe(2);
+        expect(calls).toEqual(['attempt 1', 'refresh after 1', 'attempt 2']);
+    });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { mapWithConcurrency } from '../../src/lib/utils';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('mapWithConcurrency', () => {
+    it('keeps results in input order', async () => {
+        const results = await mapWithConcurrency([30, 10, 20], 2, async (ms, index) => {
+            await sleep(ms);
+            return `${index}:${ms}`;
+        });
+        expect(results).toEqual(['0:30', '1:10', '2:20']);
+    });
+
+    it('runs at most `limit` calls at a time', async () => {
+        let running = 0;
+        let peak = 0;
+        await mapWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async () => {
+            peak = Math.max(peak, ++running);
+            await sleep(5);
+            running--;
+        });
+        expect(peak).toBe(3);
+    });
+
+    it('returns an empty array for no items', async () => {
+        expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+    });
+
+    it('stops starting calls after a rejection and rethrows once in-flight calls settle', async () => {
+        const started: number[] = [];
+        const settled: number[] = [];
+
+        const run = mapWithConcurrency([0, 1, 2, 3, 4], 2, async (item) => {
+            started.push(item);
+            if (item === 0) {
+                await sleep(5);
+                throw new Error('boom');
+            }
+            await sleep(20);
+            settled.push(item);
+        });
+
+        await expect(run).rejects.toThrow('boom');
+        // Item 1 was in flight when item 0 failed; nothing after it was started
+        expect(started).toEqual([0, 1]);
+        expect(settled).toEqual([1]);
+    });
+
+    it('rethrows the first error when several calls fail', async () => {
+        const run = mapWithConcurrency([5, 10], 2, async (ms) => {
+            await sleep(ms);
+            throw new Error(`failed after ${ms}ms`);
+        });
+        await expect(run).rejects.toThrow('failed after 5ms');
+    });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { JobEvents } from '../../src/services/JobEvents';
+
+describe('JobEvents.since', () => {
+    it('returns the events published after the given ID', () => {
+        JobEvents.publish('job-a', 'progress', { completed: 1 });
+        JobEvents.publish('job-a', 'item', { id: 'x' });
+        JobEvents.publish('job-a', 'progress', { completed: 2 });
+
+        expect(JobEvents.lastId('job-a')).toBe(3);
+        expect(JobEvents.since('job-a', 1)?.map(event => event.id)).toEqual([2, 3]);
+        expect(JobEvents.since('job-a', 3)).toEqual([]);
+    });
+
+    it('needs a fresh snapshot for unknown jobs and IDs from the future', () => {
+        expect(JobEvents.since('job-unknown', 0)).toBeNull();
+        JobEvents.publish('job-b', 'log', { message: 'hi' });
+        expect(JobEvents.since('job-b', 5)).toBeNull();
+    });
+
+    it('needs a fresh snapshot once missed events left the buffer', () => {
+        for (let i = 0; i < 510; i++) JobEvents.publish('job-c', 'progress', { completed: i });
+
+        expect(JobEvents.since('job-c', 5)).toBeNull();
+        expect(JobEvents.since('job-c', 10)).toHaveLength(500);
+        expect(JobEvents.since('job-c', 509)?.map(event => event.id)).toEqual([510]);
+    });
+
+    it('delivers published events to subscribers until they unsubscribe', () => {
+        const received: number[] = [];
+        const unsubscribe = JobEvents.subscribe('job-d', event => received.push(event.id));
+        JobEvents.publish('job-d', 'progress', {});
+        unsubscribe();
+        JobEvents.publish('job-d', 'progress', {});
+        expect(received).toEqual([1]);
+    });
+});
@@ -0,0 +1,99 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { Job, JobStore, jobsDb } from '../../src/services/JobStore';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const job = (id: string, status: Job['status'], startTime: string) => ({
+    id,
+    type: 'moodboard',
+    items: ['a', 'b'],
+    status,
+    progress: { total: 2, completed: 0, failed: 0, current: null },
+    results: [],
+    errors: [],
+    reports: {},
+    startTime,
+}) as Job;
+
+describe('JobStore', () => {
+    beforeAll(async () => {
+        await JobStore.init();
+    });
+
+    it('saves and loads jobs', async () => {
+        const saved = job('job-1', 'completed', '2026-01-01T00:00:00.000Z');
+        await JobStore.save(saved);
+        expect(await JobStore.get('job-1')).toEqual(saved);
+        expect(await JobStore.get('missing')).toBeNull();
+    });
+
+    it('keeps the last of several unawaited saves', async () => {
+        const saved = job('job-2', 'processing', '2026-01-01T00:00:00.000Z');
+        for (let completed = 1; completed <= 5; completed++) {
+            void JobStore.save({ ...saved, progress: { ...saved.progress, completed } });
+        }
+        await JobStore.save({ ...saved, status: 'completed', progress: { ...saved.progress, completed: 2 } });
+
+        expect(await JobStore.get('job-2')).toMatchObject({ status: 'completed', progress: { completed: 2 } });
+    });
+
+    it('finds queued and processing jobs by start time', async () => {
+        await JobStore.save(job('late', 'processing', '2026-01-02T00:00:00.000Z'));
+        await JobStore.save(job('early', 'queued', '2026-01-01T00:00:00.000Z'));
+        await JobStore.save(job('done', 'completed', '2026-01-01T00:00:00.000Z'));
+
+        expect((await JobStore.findUnfinished()).map(found => found.id)).toEqual(['early', 'late']);
+    });
+
+    it('tells whether a paused job of the given types is waiting', async () => {
+        await JobStore.save(job('paused', 'paused', '2026-01-01T00:00:00.000Z'));
+
+        expect(await JobStore.hasPaused(['moodboard'])).toBe(true);
+        expect(await JobStore.hasPaused(['designers', 'spotlight'])).toBe(false);
+        expect(await JobStore.hasPaused([])).toBe(false);
+    });
+});
+
+describe('JobStore.claimIdempotencyKey', () => {
+    beforeAll(async () => {
+        await JobStore.init();
+    });
+
+    afterEach(async () => {
+        vi.useRealTimers();
+        await jobsDb.execute('DELETE FROM idempotency_keys');
+    });
+
+    it('claims an unused key', async () => {
+        expect(await JobStore.claimIdempotencyKey('key', 'job-1', 'hash-1')).toBeNull();
+    });
+
+    it('returns the job and request hash a key is already bound to', async () => {
+        await JobStore.claimIdempotencyKey('key', 'job-1', 'hash-1');
+        expect(await JobStore.claimIdempotencyKey('key', 'job-2', 'hash-2'))
+            .toEqual({ jobId: 'job-1', requestHash: 'hash-1' });
+    });
+
+    it('lets only one of two concurrent requests claim a key', async () => {
+        const claims = await Promise.all([
+            JobStore.claimIdempotencyKey('key', 'job-1', 'hash'),
+            JobStore.claimIdempotencyKey('key', 'job-2', 'hash'),
+        ]);
+        expect(claims.filter(claim => claim === null)).toHaveLength(1);
+    });
+
+    it('lets a key be claimed again after a day', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+        await JobStore.claimIdempotencyKey('key', 'job-1', 'hash-1');
+
+        vi.setSystemTime(new Date(Date.parse('2026-01-01T00:00:00Z') + DAY_MS - 1000));
+        expect(await JobStore.claimIdempotencyKey('key', 'job-2', 'hash-2'))
+            .toEqual({ jobId: 'job-1', requestHash: 'hash-1' });
+
+        vi.setSystemTime(new Date(Date.parse('2026-01-01T00:00:00Z') + DAY_MS + 1000));
+        expect(await JobStore.claimIdempotencyKey('key', 'job-2', 'hash-2')).toBeNull();
+        expect(await JobStore.claimIdempotencyKey('key', 'job-3', 'hash-3'))
+            .toEqual({ jobId: 'job-2', requestHash: 'hash-2' });
+    });
+});
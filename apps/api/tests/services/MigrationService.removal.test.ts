@@ -0,0 +1,98 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { config } from '../../src/config';
+import { MigrationService } from '../../src/services/MigrationService';
+import { VectorizeService } from '../../src/services/VectorizeService';
+
+// Private, pure part of removeUnpublished
+const buildRemovalPlan = (...args: any[]) => (MigrationService as any).buildRemovalPlan(...args);
+
+describe('MigrationService.buildRemovalPlan', () => {
+    const snapshotBucket = config.r2.snapshotBucket;
+
+    beforeAll(() => {
+        config.r2.snapshotBucket = 'snapshots';
+    });
+
+    afterAll(() => {
+        config.r2.snapshotBucket = snapshotBucket;
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('takes a studio and its cover offline with the Notion status', () => {
+        const plan = buildRemovalPlan(
+            'designers',
+            { notion_id: 's1', name: 'Nord', cover: 'studios/nord.webp' },
+            [],
+            { id: 's1', name: 'Nord Studio', notionStatus: 'Draft', published: false }
+        );
+        expect(plan).toMatchObject({
+            id: 's1',
+            name: 'Nord Studio',
+            reason: 'Draft in Notion',
+            rows: 'status',
+            targetStatus: 'Draft',
+            objects: 'quarantine',
+            r2Keys: ['studios/nord.webp'],
+            vectorIds: [],
+            productImages: 0,
+        });
+    });
+
+    it("resolves a script-migrated studio's cover URL to its key", () => {
+        const publicUrl = config.r2.publicUrlIndex;
+        config.r2.publicUrlIndex = 'https://cdn.example.com/';
+        try {
+            const row = { notion_id: 's1', name: 'Nord' };
+            expect(buildRemovalPlan('designers', { ...row, cover: 'https://cdn.example.com/studios/nord.webp' }, []).r2Keys)
+                .toEqual(['studios/nord.webp']);
+            expect(buildRemovalPlan('designers', { ...row, cover: 'https://elsewhere.example.com/nord.webp' }, []).r2Keys)
+                .toEqual([]);
+        } finally {
+            config.r2.publicUrlIndex = publicUrl;
+        }
+    });
+
+    it('archives items deleted in Notion', () => {
+        const plan = buildRemovalPlan('designers', { notion_id: 's1', name: 'Nord', cover: null }, []);
+        expect(plan).toMatchObject({ name: 'Nord', reason: 'Deleted in Notion', targetStatus: 'Archived', r2Keys: [] });
+    });
+
+    it("removes a product's image objects and vectors", () => {
+        vi.spyOn(VectorizeService, 'isConfigured').mockReturnValue(true);
+        const plan = buildRemovalPlan(
+            'moodboard',
+            { notion_id: 'p1', name: 'Chair' },
+            [{ id: 'p1_0', r2_key: 'moodboard/chair/0.webp' }, { id: 'p1_1', r2_key: null }],
+            { id: 'p1', name: 'Chair', notionStatus: 'Archived', published: false }
+        );
+        expect(plan).toMatchObject({
+            r2Keys: ['moodboard/chair/0.webp'],
+            vectorIds: ['p1_0', 'p1_1'],
+            productImages: 2,
+        });
+    });
+
+    it('leaves vectors alone when Vectorize is not configured', () => {
+        vi.spyOn(VectorizeService, 'isConfigured').mockReturnValue(false);
+        const plan = buildRemovalPlan('moodboard', { notion_id: 'p1', name: 'Chair' }, [{ id: 'p1_0', r2_key: 'moodboard/chair/0.webp' }]);
+        expect(plan).toMatchObject({ r2Keys: ['moodboard/chair/0.webp'], vectorIds: [], productImages: 1 });
+    });
+
+    it('deletes objects when there is no private bucket to quarantine them in', () => {
+        config.r2.snapshotBucket = undefined;
+        try {
+            const plan = buildRemovalPlan('designers', { notion_id: 's1', name: 'Nord', cover: 'studios/nord.webp' }, []);
+            expect(plan).toMatchObject({ objects: 'delete', r2Keys: ['studios/nord.webp'] });
+        } finally {
+            config.r2.snapshotBucket = 'snapshots';
+        }
+    });
+
+    it('deletes spotlight rows, which have no status column', () => {
+        const plan = buildRemovalPlan('spotlight', { notion_id: 'e1', name: 'Milan week' }, []);
+        expect(plan).toMatchObject({ rows: 'delete', r2Keys: [], vectorIds: [] });
+    });
+});
@@ -0,0 +1,52 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { config } from '../../src/config';
+import { Job, JobStore } from '../../src/services/JobStore';
+import { MigrationService } from '../../src/services/MigrationService';
+import { SnapshotService } from '../../src/services/SnapshotService';
+
+const job = (id: string, status: Job['status']) => ({
+    id,
+    type: 'designers',
+    items: ['a'],
+    status,
+    progress: { total: 1, completed: 0, failed: 0, current: null },
+    results: [],
+    errors: [],
+    reports: {},
+    startTime: new Date().toISOString(),
+    endTime: status === 'paused' ? undefined : new Date().toISOString(),
+}) as Job;
+
+describe('MigrationService.rollback', () => {
+    const snapshotBucket = config.r2.snapshotBucket;
+
+    beforeAll(async () => {
+        config.r2.snapshotBucket = 'snapshots';
+        await JobStore.init();
+        await SnapshotService.init();
+    });
+
+    afterAll(() => {
+        config.r2.snapshotBucket = snapshotBucket;
+    });
+
+    it('rolls back finished jobs', async () => {
+        await JobStore.save(job('rollback-done', 'completed'));
+        expect(await MigrationService.rollback('rollback-done')).toMatchObject({ jobId: 'rollback-done', rows: { restored: 0, deleted: 0 } });
+    });
+
+    it('refuses paused jobs, which would resume over the restored state', async () => {
+        await JobStore.save(job('rollback-paused', 'paused'));
+        await expect(MigrationService.rollback('rollback-paused')).rejects.toMatchObject({ status: 409 });
+    });
+
+    it('refuses every job without a snapshot bucket', async () => {
+        await JobStore.save(job('rollback-unset', 'completed'));
+        config.r2.snapshotBucket = undefined;
+        try {
+            await expect(MigrationService.rollback('rollback-unset')).rejects.toMatchObject({ status: 501 });
+        } finally {
+            config.r2.snapshotBucket = 'snapshots';
+        }
+    });
+});
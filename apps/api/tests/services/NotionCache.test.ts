@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from '../../src/config';
+import { NotionCache } from '../../src/services/NotionCache';
+import { NotionService } from '../../src/services/NotionService';
+
+vi.mock('../../src/services/NotionService', () => ({
+    NotionService: { getDesigners: vi.fn(async () => []), getMoodboard: vi.fn(), getSpotlight: vi.fn(), getItem: vi.fn() },
+}));
+
+const MINUTE_MS = 60 * 1000;
+const START = Date.parse('2026-01-01T00:00:00Z');
+
+describe('NotionCache', () => {
+    const fullRefreshMinutes = config.notion.cacheFullRefreshMinutes;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(START);
+        NotionCache.clear();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        config.notion.cacheFullRefreshMinutes = fullRefreshMinutes;
+    });
+
+    it('lists every page again before cached file URLs expire', async () => {
+        config.notion.cacheFullRefreshMinutes = 120;
+
+        await NotionCache.getAll('designers');
+        vi.setSystemTime(START + 29 * MINUTE_MS);
+        await NotionCache.getAll('designers');
+        vi.setSystemTime(START + 31 * MINUTE_MS);
+        await NotionCache.getAll('designers');
+
+        // Full, incremental since the first refresh (minus the lookback), full
+        expect(vi.mocked(NotionService.getDesigners).mock.calls).toEqual([
+            [true, undefined],
+            [true, '2025-12-31T23:58:00.000Z'],
+            [true, undefined],
+        ]);
+    });
+
+    it('keeps a shorter configured full refresh interval', async () => {
+        config.notion.cacheFullRefreshMinutes = 10;
+
+        await NotionCache.getAll('designers');
+        vi.setSystemTime(START + 11 * MINUTE_MS);
+        await NotionCache.getAll('designers');
+
+        expect(vi.mocked(NotionService.getDesigners).mock.calls).toEqual([[true, undefined], [true, undefined]]);
+    });
+});
@@ -0,0 +1,53 @@
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { turso } from '../../src/services/TursoService';
+import { SlugService } from '../../src/services/SlugService';
+
+describe('SlugService', () => {
+    beforeAll(async () => {
+        await turso.execute('CREATE TABLE studios (notion_id TEXT PRIMARY KEY, slug TEXT)');
+        await turso.execute('CREATE TABLE slug_redirects (id TEXT PRIMARY KEY, entity TEXT, old_slug TEXT, new_slug TEXT, notion_id TEXT, created_at TEXT)');
+    });
+
+    beforeEach(async () => {
+        await turso.execute('DELETE FROM studios');
+        await turso.execute('DELETE FROM slug_redirects');
+    });
+
+    it('skips slugs used by another item or still redirecting to one', async () => {
+        await turso.execute("INSERT INTO studios VALUES ('s1', 'nord')");
+        await turso.execute("INSERT INTO slug_redirects VALUES ('studio:nord-2', 'studio', 'nord-2', 'nord-3', 's2', '')");
+
+        expect(await SlugService.preview('studios', 's9', 'Nord', null)).toBe('nord-3');
+    });
+
+    it('keeps a disambiguated or legacy slug while the name still produces it', async () => {
+        expect(await SlugService.preview('studios', 's1', 'Nord', 'nord-4')).toBe('nord-4');
+        expect(await SlugService.preview('studios', 's2', "O'Neil", 'oneil')).toBe('oneil');
+        expect(await SlugService.preview('studios', 's2', 'Sud', 'oneil')).toBe('sud');
+    });
+
+    it('holds a reserved slug for its item until it is released', async () => {
+        const first = await SlugService.assign('studios', 's1', 'Linden');
+        expect(first).toEqual({ slug: 'linden', previous: null });
+        expect((await SlugService.assign('studios', 's2', 'Linden')).slug).toBe('linden-2');
+        SlugService.release('studios', 's2', 'linden-2');
+
+        // Releasing on behalf of another item leaves the reservation alone
+        SlugService.release('studios', 's2', 'linden');
+        expect(await SlugService.preview('studios', 's3', 'Linden', null)).toBe('linden-2');
+
+        SlugService.release('studios', 's1', 'linden');
+        expect(await SlugService.preview('studios', 's3', 'Linden', null)).toBe('linden');
+    });
+
+    it('repoints earlier redirects so there are no chains', async () => {
+        await SlugService.recordRedirect('job', 'studios', 's1', 'nord', 'nord-studio');
+        await SlugService.recordRedirect('job', 'studios', 's1', 'nord-studio', 'nord-design');
+
+        const redirects = await turso.execute('SELECT old_slug, new_slug FROM slug_redirects ORDER BY old_slug');
+        expect(redirects.rows.map(row => [row['old_slug'], row['new_slug']])).toEqual([
+            ['nord', 'nord-design'],
+            ['nord-studio', 'nord-design'],
+        ]);
+    });
+});
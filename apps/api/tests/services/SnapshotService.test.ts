@@ -0,0 +1,111 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from '../../src/config';
+import { jobsDb } from '../../src/services/JobStore';
+import { turso } from '../../src/services/TursoService';
+import { SnapshotService } from '../../src/services/SnapshotService';
+import { StorageService } from '../../src/services/StorageService';
+
+vi.mock('../../src/services/StorageService', () => ({
+    StorageService: {
+        exists: vi.fn(),
+        copy: vi.fn(),
+        delete: vi.fn(),
+        saveSnapshot: vi.fn(),
+        restoreSnapshot: vi.fn(),
+        deleteSnapshot: vi.fn(),
+    },
+}));
+
+vi.mock('../../src/services/VectorizeService', () => ({
+    VectorizeService: { getByIds: vi.fn(async () => []), upsert: vi.fn(), deleteByIds: vi.fn() },
+}));
+
+const studio = async (notionId: string) =>
+    (await turso.execute({ sql: 'SELECT slug, name FROM studios WHERE notion_id = ?', args: [notionId] })).rows[0];
+
+describe('SnapshotService', () => {
+    beforeAll(async () => {
+        config.r2.snapshotBucket = 'snapshots';
+        await SnapshotService.init();
+        await turso.execute('CREATE TABLE studios (notion_id TEXT PRIMARY KEY, slug TEXT, name TEXT)');
+    });
+
+    beforeEach(async () => {
+        vi.clearAllMocks();
+        await turso.execute('DELETE FROM studios');
+        await jobsDb.execute('DELETE FROM job_snapshots');
+        SnapshotService.release('job');
+        SnapshotService.release('other-job');
+    });
+
+    it('restores rows to their value from before the job, however often they were captured', async () => {
+        await turso.execute("INSERT INTO studios VALUES ('s1', 'nord', 'Nord')");
+
+        await SnapshotService.captureRow('job', 'studios', 's1');
+        await turso.execute("UPDATE studios SET slug = 'nord-2', name = 'Nord 2' WHERE notion_id = 's1'");
+        // A retry captures again; the first snapshot wins
+        await SnapshotService.captureRow('job', 'studios', 's1');
+        await turso.execute("UPDATE studios SET slug = 'nord-3', name = 'Nord 3' WHERE notion_id = 's1'");
+
+        const result = await SnapshotService.restore('job');
+        expect(result.rows).toEqual({ restored: 1, deleted: 0 });
+        expect(await studio('s1')).toMatchObject({ slug: 'nord', name: 'Nord' });
+    });
+
+    it('deletes rows the job created', async () => {
+        await SnapshotService.captureRow('job', 'studios', 's2');
+        await turso.execute("INSERT INTO studios VALUES ('s2', 'sud', 'Sud')");
+
+        const result = await SnapshotService.restore('job');
+        expect(result.rows).toEqual({ restored: 0, deleted: 1 });
+        expect(await studio('s2')).toBeUndefined();
+    });
+
+    it('undoes captures newest first', async () => {
+        vi.mocked(StorageService.exists).mockResolvedValue(false);
+        await SnapshotService.captureObject('job', 'studios/a.webp');
+        await SnapshotService.captureObject('job', 'studios/b.webp');
+        await SnapshotService.captureObject('other-job', 'studios/c.webp');
+
+        const result = await SnapshotService.restore('job');
+        expect(result.objects).toEqual({ restored: 0, deleted: 2 });
+        expect(vi.mocked(StorageService.delete).mock.calls.map(call => call[0])).toEqual(['studios/b.webp', 'studios/a.webp']);
+    });
+
+    it('copies overwritten objects back from their snapshot', async () => {
+        vi.mocked(StorageService.exists).mockResolvedValue(true);
+        await SnapshotService.captureObject('job', 'moodboard/chair/0.webp', true);
+
+        const result = await SnapshotService.restore('job');
+        expect(result.objects).toEqual({ restored: 1, deleted: 0 });
+        expect(StorageService.saveSnapshot).toHaveBeenCalledWith('moodboard/chair/0.webp', 'job/moodboard/moodboard/chair/0.webp', true);
+        expect(StorageService.restoreSnapshot).toHaveBeenCalledWith('job/moodboard/moodboard/chair/0.webp', 'moodboard/chair/0.webp', true);
+        expect(StorageService.deleteSnapshot).toHaveBeenCalledWith('job/moodboard/moodboard/chair/0.webp');
+    });
+
+    it('keeps restoring after a failure and reports it', async () => {
+        vi.mocked(StorageService.exists).mockResolvedValue(false);
+        vi.mocked(StorageService.delete).mockRejectedValueOnce(new Error('R2 down'));
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        await SnapshotService.captureObject('job', 'studios/a.webp');
+        await SnapshotService.captureRow('job', 'studios', 's3');
+
+        const result = await SnapshotService.restore('job');
+        expect(result.rows.deleted).toBe(1);
+        expect(result.errors).toEqual([{ kind: 'object', target: 'index', key: 'studios/a.webp', error: 'R2 down' }]);
+    });
+
+    it('captures nothing without a snapshot bucket', async () => {
+        config.r2.snapshotBucket = undefined;
+        try {
+            vi.mocked(StorageService.exists).mockResolvedValue(true);
+            await SnapshotService.captureRow('job', 'studios', 's1');
+            await SnapshotService.captureObject('job', 'studios/a.webp');
+
+            expect(StorageService.saveSnapshot).not.toHaveBeenCalled();
+            expect((await jobsDb.execute('SELECT COUNT(*) AS n FROM job_snapshots')).rows[0]['n']).toBe(0);
+        } finally {
+            config.r2.snapshotBucket = 'snapshots';
+        }
+    });
+});
@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    test: {
+        include: ['tests/**/*.test.ts'],
+        env: {
+            // In-memory databases, so tests never touch data/jobs.db or a database from .env
+            JOBS_DATABASE_URL: ':memory:',
+            TURSO_DATABASE_URL: ':memory:',
+        },
+    },
+});
@@ -6,6 +6,8 @@ import { useMoodboardStore } from './stores/moodboardStore';
 import { DesignerGrid } from './components/Designers/DesignerGrid';
 import { MoodboardGrid } from './components/Moodboard/MoodboardGrid';
 import { MigrationOverview } from './components/Dashboard/MigrationOverview';
+import { SpotlightList } from './components/Spotlight/SpotlightList';
+import { JobHistory } from './components/Jobs/JobHistory';
 
 function App() {
   const [activeTab, setActiveTab] = useState('overview');
@@ -30,6 +32,7 @@ function App() {
           { value: 'designers', label: 'Designers' },
           { value: 'moodboard', label: 'Moodboard' },
           { value: 'spotlight', label: 'Spotlight' },
+          { value: 'jobs', label: 'Jobs' },
         ]}
       />
 
@@ -37,9 +40,8 @@ function App() {
         {activeTab === 'overview' && <MigrationOverview />}
         {activeTab === 'designers' && <DesignerGrid />}
         {activeTab === 'moodboard' && <MoodboardGrid />}
-        {activeTab === 'spotlight' && (
-          <div className="p-4 flex items-center justify-center h-64 text-muted-foreground">Coming Soon</div>
-        )}
+        {activeTab === 'spotlight' && <SpotlightList />}
+        {activeTab === 'jobs' && <JobHistory />}
       </main>
     </div>
   );
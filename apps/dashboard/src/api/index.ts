@@ -12,7 +12,10 @@ export const notionApi = {
     getMoodboard: (includeAll = false) =>
         api.get('/notion/moodboard', { params: { all: includeAll } })
             .then(res => res.data),
-    compareStatus: (type: 'designers' | 'moodboard') =>
+    getSpotlight: (includeAll = false) =>
+        api.get('/notion/spotlight', { params: { all: includeAll } })
+            .then(res => res.data),
+    compareStatus: (type: 'designers' | 'moodboard' | 'spotlight') =>
         api.post('/notion/compare-status', { type }).then(res => res.data),
 };
 
@@ -37,7 +40,18 @@ export const enrichmentApi = {
 
 export const migrationApi = {
     dryRun: (payload: any) => api.post('/migration/dry-run', payload).then(res => res.data),
-    execute: (payload: any) => api.post('/migration/execute', payload).then(res => res.data),
+    // A repeated request with the same idempotency key returns the job it started
+    execute: (payload: any, idempotencyKey?: string) => api.post('/migration/execute', payload, {
+        headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined
+    }).then(res => res.data),
     getStatus: (jobId: string) => api.get(`/migration/status/${jobId}`).then(res => res.data),
+    listJobs: (params: { type?: string; status?: string; from?: string; to?: string; itemId?: string; limit?: number; offset?: number }) =>
+        api.get('/migration/jobs', { params }).then(res => res.data),
     cancel: (jobId: string) => api.post(`/migration/cancel/${jobId}`).then(res => res.data),
+    pause: (jobId: string) => api.post(`/migration/pause/${jobId}`).then(res => res.data),
+    resume: (jobId: string) => api.post(`/migration/resume/${jobId}`).then(res => res.data),
+    retry: (jobId: string) => api.post(`/migration/retry/${jobId}`).then(res => res.data),
+    // Server-Sent Events stream; lastEventId lets a new EventSource catch up after a dropped connection
+    eventsUrl: (jobId: string, lastEventId?: string | null) =>
+        `${config.apiUrl}/api/migration/events/${jobId}${lastEventId ? `?lastEventId=${encodeURIComponent(lastEventId)}` : ''}`,
 };
@@ -3,13 +3,14 @@ import { useDesignerStore } from '../../stores/designerStore';
 import { DesignerCard } from './DesignerCard';
 import { Sidebar } from '../Layout/Sidebar';
 import { Loader2, Wand2, Layers, Database } from 'lucide-react';
-import { ProcessingModal } from '../Shared/ProcessingModal';
+import { ProcessingModal, MigrationScope } from '../Shared/ProcessingModal';
 import { WebPComparisonModal } from '../Shared/WebPComparisonModal';
 import { Button } from '../ui/button';
 
 export function DesignerGrid() {
     const [comparisonData, setComparisonData] = React.useState<{ url: string, id: string, name: string } | null>(null);
     const [isProcessing, setIsProcessing] = React.useState(false);
+    const [scope, setScope] = React.useState<MigrationScope>('full');
     const [operationInProgress, setOperationInProgress] = React.useState(false);
 
     const {
@@ -123,6 +124,17 @@ export function DesignerGrid() {
                                 <Database className={`w-4 h-4 ${operationInProgress ? 'animate-spin' : ''}`} /> Refresh from Notion
                             </Button>
 
+                            <select
+                                className="w-full text-sm border rounded px-2 py-1 bg-background"
+                                value={scope}
+                                onChange={(e) => setScope(e.target.value as MigrationScope)}
+                                title="What to migrate for the selected items"
+                            >
+                                <option value="full">Everything</option>
+                                <option value="metadata-only">Metadata only</option>
+                                <option value="images-only">Images only</option>
+                            </select>
+
                             <Button
                                 variant="default"
                                 size="sm"
@@ -238,6 +250,7 @@ export function DesignerGrid() {
                 isOpen={isProcessing}
                 items={Array.from(selectedIds)}
                 type="designers"
+                scope={scope}
                 onClose={() => setIsProcessing(false)}
                 onComplete={() => {
                     setIsProcessing(false);
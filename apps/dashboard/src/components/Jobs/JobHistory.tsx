@@ -0,0 +1,303 @@
+import { useState, useEffect, useCallback } from 'react';
+import { isAxiosError } from 'axios';
+import { Loader2, RefreshCcw, AlertCircle, ChevronLeft, ChevronRight } from 'lucide-react';
+import { migrationApi } from '../../api';
+import { Sidebar } from '../Layout/Sidebar';
+import { Button } from '../ui/button';
+import { JobItemReport } from '../Shared/JobItemReport';
+import { cn } from '../../lib/utils';
+import { ItemReport } from '@repo/shared-types';
+
+const PAGE_SIZE = 20;
+
+interface JobSummary {
+    id: string;
+    type: 'designers' | 'moodboard' | 'spotlight';
+    status: 'queued' | 'processing' | 'paused' | 'completed' | 'failed' | 'cancelled';
+    scope?: string;
+    scheduledBy?: string;
+    force?: boolean;
+    retryOf?: string;
+    startTime: string;
+    endTime: string | null;
+    durationMs: number | null;
+    items: number;
+    succeeded: number;
+    failed: number;
+    skipped: number;
+    removed: number;
+    rolledBackAt: string | null;
+}
+
+interface JobDetail {
+    id: string;
+    reports: Record<string, ItemReport>;
+    errors: Array<{ id: string; step?: string; kind?: string; error: string }>;
+}
+
+interface Filters {
+    type: string;
+    status: string;
+    from: string;
+    to: string;
+    itemId: string;
+}
+
+const EMPTY_FILTERS: Filters = { type: '', status: '', from: '', to: '', itemId: '' };
+
+const STATUS_COLORS: Record<JobSummary['status'], string> = {
+    queued: 'text-muted-foreground',
+    processing: 'text-blue-600',
+    paused: 'text-yellow-600',
+    completed: 'text-green-600',
+    failed: 'text-destructive',
+    cancelled: 'text-yellow-600',
+};
+
+function formatDuration(ms: number | null): string {
+    if (ms === null) return '—';
+    if (ms < 60_000) return `${(ms / 1000).toFixed(1)} s`;
+    return `${Math.floor(ms / 60_000)} min ${Math.round((ms % 60_000) / 1000)} s`;
+}
+
+function JobDetailPanel({ jobId }: { jobId: string }) {
+    const [job, setJob] = useState<JobDetail | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // Mounted once per expanded row, so jobId never changes for an instance
+    useEffect(() => {
+        migrationApi.getStatus(jobId)
+            .then(setJob)
+            .catch((err: Error) => setError(err.message || 'Failed to load job'));
+    }, [jobId]);
+
+    if (error) return <div className="p-3 text-sm text-destructive">{error}</div>;
+    if (!job) return <div className="p-3 flex justify-center"><Loader2 className="w-4 h-4 animate-spin text-muted-foreground" /></div>;
+
+    const reports = Object.values(job.reports || {});
+    return (
+        <div className="p-3 space-y-3 bg-muted/20">
+            {reports.length > 0
+                ? <JobItemReport reports={reports} />
+                : <div className="text-xs text-muted-foreground">No items were processed.</div>}
+
+            {job.errors.length > 0 && (
+                <div className="space-y-1 text-xs">
+                    <div className="font-medium">Errors</div>
+                    {job.errors.map(err => (
+                        <div key={err.id} className="text-destructive truncate" title={err.error}>
+                            {job.reports?.[err.id]?.name ?? err.id}{err.step && ` · ${err.step}`}: {err.error}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export function JobHistory() {
+    const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+    const [offset, setOffset] = useState(0);
+    const [jobs, setJobs] = useState<JobSummary[]>([]);
+    const [total, setTotal] = useState(0);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    const fetchJobs = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const data = await migrationApi.listJobs({
+                type: filters.type || undefined,
+                status: filters.status || undefined,
+                // Local days, inclusive of the whole "to" day
+                from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+                to: filters.to ? new Date(`${filters.to}T23:59:59.999`).toISOString() : undefined,
+                itemId: filters.itemId.trim() || undefined,
+                limit: PAGE_SIZE,
+                offset,
+            });
+            setJobs(data.jobs);
+            setTotal(data.total);
+        } catch (err) {
+            setError(isAxiosError(err) ? err.response?.data?.error || err.message : 'Failed to load jobs');
+        } finally {
+            setLoading(false);
+        }
+    }, [filters, offset]);
+
+    useEffect(() => {
+        fetchJobs();
+    }, [fetchJobs]);
+
+    const setFilter = (key: keyof Filters, value: string) => {
+        setFilters(prev => ({ ...prev, [key]: value }));
+        setOffset(0);
+    };
+
+    return (
+        <div className="flex h-full">
+            <Sidebar>
+                <div className="space-y-6">
+                    <div>
+                        <h3 className="text-sm font-medium mb-2">Type</h3>
+                        <select
+                            className="w-full text-sm border rounded px-2 py-1 bg-background"
+                            value={filters.type}
+                            onChange={(e) => setFilter('type', e.target.value)}
+                        >
+                            <option value="">All Types</option>
+                            <option value="designers">Designers</option>
+                            <option value="moodboard">Moodboard</option>
+                            <option value="spotlight">Spotlight</option>
+                        </select>
+                    </div>
+
+                    <div>
+                        <h3 className="text-sm font-medium mb-2">Status</h3>
+                        <select
+                            className="w-full text-sm border rounded px-2 py-1 bg-background"
+                            value={filters.status}
+                            onChange={(e) => setFilter('status', e.target.value)}
+                        >
+                            <option value="">All Statuses</option>
+                            <option value="queued">Queued</option>
+                            <option value="processing">Processing</option>
+                            <option value="paused">Paused</option>
+                            <option value="completed">Completed</option>
+                            <option value="failed">Failed</option>
+                            <option value="cancelled">Cancelled</option>
+                        </select>
+                    </div>
+
+                    <div>
+                        <h3 className="text-sm font-medium mb-2">Started</h3>
+                        <div className="flex flex-col gap-2">
+                            <input
+                                type="date"
+                                className="w-full text-sm border rounded px-2 py-1 bg-background"
+                                value={filters.from}
+                                onChange={(e) => setFilter('from', e.target.value)}
+                            />
+                            <input
+                                type="date"
+                                className="w-full text-sm border rounded px-2 py-1 bg-background"
+                                value={filters.to}
+                                onChange={(e) => setFilter('to', e.target.value)}
+                            />
+                        </div>
+                    </div>
+
+                    <div>
+                        <h3 className="text-sm font-medium mb-2">Item ID</h3>
+                        <input
+                            type="text"
+                            placeholder="Notion page ID"
+                            className="w-full px-2 py-1 text-sm border rounded-md bg-background focus:outline-none focus:ring-1 focus:ring-primary"
+                            value={filters.itemId}
+                            onChange={(e) => setFilter('itemId', e.target.value)}
+                        />
+                    </div>
+
+                    <div className="flex flex-col gap-2">
+                        <Button variant="outline" size="sm" onClick={() => { setFilters(EMPTY_FILTERS); setOffset(0); }} className="justify-start">
+                            Clear Filters
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={fetchJobs} disabled={loading} className="justify-start gap-2">
+                            <RefreshCcw className={cn('w-3 h-3', loading && 'animate-spin')} /> Refresh
+                        </Button>
+                    </div>
+                </div>
+            </Sidebar>
+
+            <div className="flex-1 overflow-auto p-4 space-y-4">
+                {error && (
+                    <div className="bg-destructive/10 text-destructive p-3 rounded flex items-center gap-2 text-sm">
+                        <AlertCircle className="w-4 h-4" /> {error}
+                    </div>
+                )}
+
+                <div className="border rounded-lg overflow-hidden">
+                    <table className="w-full text-sm">
+                        <thead className="bg-muted/50 text-muted-foreground text-xs">
+                            <tr>
+                                <th className="text-left px-3 py-2">Started</th>
+                                <th className="text-left px-3 py-2">Type</th>
+                                <th className="text-left px-3 py-2">Status</th>
+                                <th className="text-right px-3 py-2">Duration</th>
+                                <th className="text-right px-3 py-2">Items</th>
+                                <th className="text-right px-3 py-2">Succeeded</th>
+                                <th className="text-right px-3 py-2">Failed</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {jobs.map(job => (
+                                <JobRow
+                                    key={job.id}
+                                    job={job}
+                                    expanded={expandedId === job.id}
+                                    onToggle={() => setExpandedId(expandedId === job.id ? null : job.id)}
+                                />
+                            ))}
+                            {!loading && jobs.length === 0 && (
+                                <tr>
+                                    <td colSpan={7} className="px-3 py-8 text-center text-muted-foreground">No jobs found</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="flex items-center justify-between text-sm text-muted-foreground">
+                    <span>
+                        {total > 0 ? `${offset + 1}–${Math.min(offset + PAGE_SIZE, total)} of ${total}` : ''}
+                    </span>
+                    <div className="flex gap-2">
+                        <Button variant="outline" size="sm" disabled={offset === 0 || loading} onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}>
+                            <ChevronLeft className="w-4 h-4" />
+                        </Button>
+                        <Button variant="outline" size="sm" disabled={offset + PAGE_SIZE >= total || loading} onClick={() => setOffset(offset + PAGE_SIZE)}>
+                            <ChevronRight className="w-4 h-4" />
+                        </Button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+function JobRow({ job, expanded, onToggle }: { job: JobSummary; expanded: boolean; onToggle: () => void }) {
+    return (
+        <>
+            <tr onClick={onToggle} className={cn('border-t cursor-pointer hover:bg-muted/50', expanded && 'bg-muted/30')}>
+                <td className="px-3 py-2 whitespace-nowrap">{new Date(job.startTime).toLocaleString()}</td>
+                <td className="px-3 py-2">
+                    {job.type}
+                    {job.scope && job.scope !== 'full' && <span className="text-xs text-muted-foreground"> · {job.scope}</span>}
+                    {job.scheduledBy && <span className="text-xs text-muted-foreground"> · {job.scheduledBy}</span>}
+                    {job.retryOf && <span className="text-xs text-muted-foreground" title={job.retryOf}> · retry</span>}
+                </td>
+                <td className={cn('px-3 py-2', STATUS_COLORS[job.status])}>
+                    {job.status}
+                    {job.rolledBackAt && <span className="text-xs text-muted-foreground"> · rolled back</span>}
+                </td>
+                <td className="px-3 py-2 text-right">{formatDuration(job.durationMs)}</td>
+                <td className="px-3 py-2 text-right">{job.items}</td>
+                <td className="px-3 py-2 text-right text-green-600">
+                    {job.succeeded}
+                    {job.skipped > 0 && <span className="text-xs text-muted-foreground"> +{job.skipped} skipped</span>}
+                    {job.removed > 0 && <span className="text-xs text-muted-foreground"> +{job.removed} removed</span>}
+                </td>
+                <td className={cn('px-3 py-2 text-right', job.failed > 0 && 'text-destructive')}>{job.failed}</td>
+            </tr>
+            {expanded && (
+                <tr>
+                    <td colSpan={7} className="border-t">
+                        <JobDetailPanel jobId={job.id} />
+                    </td>
+                </tr>
+            )}
+        </>
+    );
+}
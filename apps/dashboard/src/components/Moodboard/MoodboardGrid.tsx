@@ -3,11 +3,13 @@ import { useMoodboardStore } from '../../stores/moodboardStore';
 import { MoodboardCard } from './MoodboardCard';
 import { Sidebar } from '../Layout/Sidebar';
 import { Loader2, RefreshCcw, Layers, Search, Filter } from 'lucide-react';
-import { ProcessingModal } from '../Shared/ProcessingModal';
+import { ProcessingModal, MigrationScope } from '../Shared/ProcessingModal';
 import { Button } from '../ui/button';
 
 export function MoodboardGrid() {
     const [isProcessing, setIsProcessing] = React.useState(false);
+    const [scope, setScope] = React.useState<MigrationScope>('full');
+    const [force, setForce] = React.useState(false);
     const [searchTerm, setSearchTerm] = React.useState('');
 
     const {
@@ -85,6 +87,24 @@ export function MoodboardGrid() {
                     <div>
                         <h3 className="text-sm font-medium mb-2">Actions</h3>
                         <div className="flex flex-col gap-2">
+                            <select
+                                className="w-full text-sm border rounded px-2 py-1 bg-background"
+                                value={scope}
+                                onChange={(e) => setScope(e.target.value as MigrationScope)}
+                                title="What to migrate for the selected items"
+                            >
+                                <option value="full">Everything</option>
+                                <option value="metadata-only">Metadata only</option>
+                                <option value="images-only">Images only</option>
+                                <option value="embeddings-only">Embeddings only</option>
+                                <option value="enrichment-only">Re-enrich &amp; embed</option>
+                            </select>
+                            {scope === 'enrichment-only' && (
+                                <label className="flex items-center gap-2 text-xs text-muted-foreground px-1" title="Re-enrich products whose enrichment is already current">
+                                    <input type="checkbox" checked={force} onChange={(e) => setForce(e.target.checked)} />
+                                    Force regeneration
+                                </label>
+                            )}
                             <Button
                                 variant="outline"
                                 size="sm"
@@ -142,6 +162,8 @@ export function MoodboardGrid() {
                 isOpen={isProcessing}
                 items={Array.from(selectedIds)}
                 type="moodboard"
+                scope={scope}
+                force={scope === 'enrichment-only' && force}
                 onClose={() => setIsProcessing(false)}
                 onComplete={() => {
                     setIsProcessing(false);
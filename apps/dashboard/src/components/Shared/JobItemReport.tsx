@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Check, X, Loader2, MinusCircle, Trash2 } from 'lucide-react';
+import { ItemReport } from '@repo/shared-types';
+import { cn } from '../../lib/utils';
+
+interface JobItemReportProps {
+    reports: ItemReport[];
+}
+
+function formatSize(bytes: number): string {
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
+
+function formatDuration(ms?: number): string {
+    if (ms === undefined) return '—';
+    if (ms < 1000) return `${ms} ms`;
+    return `${(ms / 1000).toFixed(1)} s`;
+}
+
+function StatusIcon({ status }: { status: ItemReport['status'] }) {
+    switch (status) {
+        case 'success': return <Check className="w-4 h-4 text-green-600" />;
+        case 'failed': return <X className="w-4 h-4 text-destructive" />;
+        case 'removed': return <Trash2 className="w-4 h-4 text-yellow-600" />;
+        case 'skipped': return <MinusCircle className="w-4 h-4 text-muted-foreground" />;
+        default: return <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />;
+    }
+}
+
+function ReportRow({ report }: { report: ItemReport }) {
+    const [expanded, setExpanded] = useState(false);
+
+    return (
+        <div className="border-b last:border-b-0">
+            <button
+                onClick={() => setExpanded(!expanded)}
+                className="w-full flex items-center gap-2 px-3 py-2 text-sm hover:bg-muted/50 text-left"
+            >
+                {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                <StatusIcon status={report.status} />
+                <span className="flex-1 truncate">{report.name}</span>
+                <span className="text-xs text-muted-foreground">{formatDuration(report.durationMs)}</span>
+            </button>
+
+            {expanded && (
+                <div className="px-3 pb-3 space-y-3 text-xs">
+                    <table className="w-full">
+                        <thead className="text-muted-foreground">
+                            <tr>
+                                <th className="text-left font-medium py-1">Step</th>
+                                <th className="text-right font-medium py-1">Attempts</th>
+                                <th className="text-right font-medium py-1">Duration</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {report.steps.map((step, i) => (
+                                <tr key={i} className={cn(step.status === 'failed' && 'text-destructive')}>
+                                    <td className="py-0.5">
+                                        {step.step}{step.label && <span className="text-muted-foreground"> · {step.label}</span>}
+                                        {step.error && <div className="truncate" title={step.error}>{step.error}</div>}
+                                    </td>
+                                    <td className="text-right">{step.attempts ?? '—'}</td>
+                                    <td className="text-right">{formatDuration(step.durationMs)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+
+                    {report.images.length > 0 && (
+                        <div className="space-y-1">
+                            <div className="font-medium">Images</div>
+                            {report.images.map(img => (
+                                <div key={img.index} className="flex justify-between gap-2 bg-muted/30 rounded px-2 py-1">
+                                    <span className="truncate" title={img.r2Key}>{img.r2Key}</span>
+                                    <span className="whitespace-nowrap text-muted-foreground">
+                                        {img.unchanged
+                                            ? 'unchanged'
+                                            : img.movedFrom !== undefined
+                                                ? `moved from position ${img.movedFrom}`
+                                                : `${formatSize(img.bytesBefore)} → ${formatSize(img.bytesAfter)} · SSIM ${img.ssim.toFixed(3)}`}
+                                        {img.vectorId && ' · indexed'}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {report.vectorIds.length > 0 && (
+                        <div className="text-muted-foreground">
+                            Vectors: {report.vectorIds.join(', ')}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export function JobItemReport({ reports }: JobItemReportProps) {
+    if (reports.length === 0) return null;
+
+    return (
+        <div className="border rounded-md max-h-64 overflow-auto">
+            {reports.map(report => (
+                <ReportRow key={report.id} report={report} />
+            ))}
+        </div>
+    );
+}
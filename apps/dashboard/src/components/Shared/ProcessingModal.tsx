@@ -1,44 +1,80 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { isAxiosError } from 'axios';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '../ui/dialog';
 import { Button } from '../ui/button';
-import { Loader2, AlertTriangle, Check } from 'lucide-react';
+import { Loader2, AlertTriangle, Check, Pause, Play, RotateCcw } from 'lucide-react';
 import { migrationApi } from '../../api';
 import { useDesignerStore } from '../../stores/designerStore';
+import { JobItemReport } from './JobItemReport';
+import { ItemReport } from '@repo/shared-types';
 
 interface ProcessingModalProps {
     isOpen: boolean;
     onClose: () => void;
     items: string[];
-    type: 'designers' | 'moodboard';
+    type: 'designers' | 'moodboard' | 'spotlight';
+    // What to migrate; defaults to everything
+    scope?: MigrationScope;
+    // Redo work even when the stored hashes or enrichment are current
+    force?: boolean;
     onComplete?: () => void;
 }
 
+export type MigrationScope = 'full' | 'metadata-only' | 'images-only' | 'embeddings-only' | 'enrichment-only';
+
 interface JobStatus {
-    status: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+    status: 'queued' | 'processing' | 'paused' | 'completed' | 'failed' | 'cancelled';
     progress: {
         total: number;
         completed: number;
         failed: number;
         current?: string;
     };
+    reports?: Record<string, ItemReport>;
     error?: string;
 }
 
-export function ProcessingModal({ isOpen, onClose, items, type, onComplete }: ProcessingModalProps) {
+interface LockedItem {
+    id: string;
+    heldBy: string;
+    action: 'skipped' | 'queued';
+}
+
+interface LogLine {
+    level: 'info' | 'warn' | 'error';
+    message: string;
+    at: string;
+}
+
+const MAX_LOG_LINES = 200;
+const RECONNECT_DELAY_MS = 2000;
+
+export function ProcessingModal({ isOpen, onClose, items, type, scope = 'full', force = false, onComplete }: ProcessingModalProps) {
     const [jobId, setJobId] = useState<string | null>(null);
     const [status, setStatus] = useState<JobStatus | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const [logs, setLogs] = useState<LogLine[]>([]);
+    const [pausing, setPausing] = useState(false);
+    // Bumped on resume so the event stream, closed when the job paused, reconnects
+    const [streamKey, setStreamKey] = useState(0);
+    // Items another job was already processing when this one started
+    const [locked, setLocked] = useState<LockedItem[]>([]);
     const { refreshDesigner } = useDesignerStore();
 
+    // One key per opening, so a repeated start (e.g. a double click) gets the same job back.
+    // Kept in a ref: a new key must not restart the job. Also marks the opening as started
+    const idempotencyKey = useRef<string | null>(null);
+
     const startJob = useCallback(async () => {
         setError(null);
         try {
-            const res = await migrationApi.execute({ type, ids: items });
+            const res = await migrationApi.execute({ type, ids: items, scope, force }, idempotencyKey.current ?? undefined);
             setJobId(res.jobId);
-        } catch (err: any) {
-            setError(err.message || 'Failed to start job');
+            setLocked(res.locked || []);
+        } catch (err) {
+            setError(isAxiosError(err) ? err.response?.data?.error || err.message : 'Failed to start job');
         }
-    }, [type, items]);
+    }, [type, items, scope, force]);
 
     const handleCancel = useCallback(async () => {
         if (jobId) {
@@ -51,55 +87,156 @@ export function ProcessingModal({ isOpen, onClose, items, type, onComplete }: Pr
         onClose();
     }, [jobId, onClose]);
 
+    // Dismissing the dialog leaves a paused job paused, to be resumed later
+    const handleDismiss = useCallback(() => {
+        if (status?.status === 'paused') onClose();
+        else handleCancel();
+    }, [status?.status, onClose, handleCancel]);
+
+    const handlePause = useCallback(async () => {
+        if (!jobId) return;
+        setError(null);
+        try {
+            await migrationApi.pause(jobId);
+            setPausing(true);
+        } catch (err) {
+            setError(isAxiosError(err) ? err.response?.data?.error || err.message : 'Failed to pause job');
+        }
+    }, [jobId]);
+
+    const handleResume = useCallback(async () => {
+        if (!jobId) return;
+        setError(null);
+        try {
+            await migrationApi.resume(jobId);
+            setStatus(prev => prev ? { ...prev, status: 'queued' } : prev);
+            setStreamKey(key => key + 1);
+        } catch (err) {
+            setError(isAxiosError(err) ? err.response?.data?.error || err.message : 'Failed to resume job');
+        }
+    }, [jobId]);
+
+    // Continue in a child job with the items that failed or were never processed
+    const handleRetry = useCallback(async () => {
+        if (!jobId) return;
+        setError(null);
+        try {
+            const res = await migrationApi.retry(jobId);
+            setStatus(null);
+            setLogs([]);
+            setJobId(res.jobId);
+        } catch (err) {
+            setError(isAxiosError(err) ? err.response?.data?.error || err.message : 'Failed to retry job');
+        }
+    }, [jobId]);
+
     useEffect(() => {
         if (isOpen && items.length > 0) {
+            // Parents pass a new items array on every render, which must not start the job again
+            // (and switch back from a retry to the job it continues)
+            if (idempotencyKey.current) return;
+            idempotencyKey.current = crypto.randomUUID();
             startJob();
         } else {
             setJobId(null);
             setStatus(null);
             setError(null);
+            setLogs([]);
+            setPausing(false);
+            setLocked([]);
+            idempotencyKey.current = null;
         }
     }, [isOpen, items, startJob]);
 
     useEffect(() => {
         if (!jobId) return;
 
-        const interval = setInterval(async () => {
-            try {
-                const data = await migrationApi.getStatus(jobId);
+        let source: EventSource | null = null;
+        let lastEventId: string | null = null;
+        let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+        let ended = false;
+
+        const parse = (e: Event) => {
+            const message = e as MessageEvent;
+            if (message.lastEventId) lastEventId = message.lastEventId;
+            return JSON.parse(message.data);
+        };
+
+        const connect = () => {
+            source = new EventSource(migrationApi.eventsUrl(jobId, lastEventId));
+
+            source.addEventListener('snapshot', (e) => setStatus(parse(e)));
+
+            source.addEventListener('progress', (e) => {
+                const data = parse(e);
+                setStatus(prev => prev ? { ...prev, status: data.status, progress: data.progress } : prev);
+            });
+
+            source.addEventListener('item', (e) => {
+                const data = parse(e);
+                setStatus(prev => prev ? {
+                    ...prev,
+                    reports: { ...prev.reports, [data.report.id]: data.report }
+                } : prev);
+            });
+
+            source.addEventListener('log', (e) => {
+                const line: LogLine = parse(e);
+                setLogs(prev => [...prev.slice(-(MAX_LOG_LINES - 1)), line]);
+            });
+
+            source.addEventListener('end', async (e) => {
+                const data: JobStatus = parse(e);
+                ended = true;
+                source?.close();
                 setStatus(data);
+                setPausing(false);
 
-                if (['completed', 'failed', 'cancelled'].includes(data.status)) {
-                    clearInterval(interval);
-                    if (data.status === 'completed') {
-                        // Refresh specific items
-                        if (type === 'designers') {
-                            await Promise.all(items.map(id => refreshDesigner(id)));
-                        }
-                        if (onComplete) {
-                            setTimeout(onComplete, 1000);
-                        }
+                if (data.status === 'completed') {
+                    // Refresh specific items
+                    if (type === 'designers') {
+                        await Promise.all(items.map(id => refreshDesigner(id)));
+                    }
+                    if (onComplete) {
+                        setTimeout(onComplete, 1000);
                     }
                 }
-            } catch (err) {
-                console.error('Failed to poll status:', err);
-            }
-        }, 1000);
+            });
+
+            source.onerror = () => {
+                // EventSource retries on its own (sending Last-Event-ID) unless the
+                // server refused the stream; then reconnect ourselves and catch up
+                if (ended || source?.readyState !== EventSource.CLOSED) return;
+                reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+            };
+        };
 
-        return () => clearInterval(interval);
-    }, [jobId, type, items, refreshDesigner, onComplete]);
+        connect();
+
+        return () => {
+            ended = true;
+            clearTimeout(reconnectTimer);
+            source?.close();
+        };
+    }, [jobId, streamKey, type, items, refreshDesigner, onComplete]);
 
     if (!isOpen) return null;
 
+    const isFinished = !!status && ['completed', 'failed', 'cancelled'].includes(status.status);
+    const canRetry = isFinished && (status.progress.failed > 0 || status.progress.completed < status.progress.total);
+
     const progressPercent = status?.progress
         ? Math.round((status.progress.completed / status.progress.total) * 100)
         : 0;
 
     return (
-        <Dialog open={isOpen} onOpenChange={(open) => !open && handleCancel()}>
+        <Dialog open={isOpen} onOpenChange={(open) => !open && handleDismiss()}>
             <DialogContent className="sm:max-w-md bg-white">
                 <DialogHeader>
-                    <DialogTitle>{status?.status === 'completed' ? 'Processing Complete' : 'Processing Items'}</DialogTitle>
+                    <DialogTitle>
+                        {status?.status === 'completed' ? 'Processing Complete' : status?.status === 'paused' ? 'Processing Paused' : 'Processing Items'}
+                        {scope !== 'full' && <span className="text-sm font-normal text-muted-foreground"> · {scope}{force && ' (forced)'}</span>}
+                    </DialogTitle>
                 </DialogHeader>
 
                 <div className="py-6 space-y-4">
@@ -136,6 +273,21 @@ export function ProcessingModal({ isOpen, onClose, items, type, onComplete }: Pr
                                 </p>
                             )}
 
+                            {locked.length > 0 && (
+                                <div className="text-yellow-700 bg-yellow-50 p-3 rounded text-sm flex items-center gap-2">
+                                    <AlertTriangle className="w-4 h-4" />
+                                    {locked.length} item(s) were already being migrated by another job and
+                                    {locked[0].action === 'queued' ? ' will wait for it to finish.' : ' were skipped.'}
+                                </div>
+                            )}
+
+                            {status.status === 'paused' && (
+                                <div className="text-yellow-700 bg-yellow-50 p-3 rounded text-sm flex items-center gap-2">
+                                    <Pause className="w-4 h-4" />
+                                    Paused after {status.progress.completed} of {status.progress.total} items. Resume to continue with the rest.
+                                </div>
+                            )}
+
                             {status.status === 'completed' && (
                                 <div className="text-green-600 bg-green-50 p-3 rounded text-sm flex items-center gap-2">
                                     <Check className="w-4 h-4" />
@@ -143,15 +295,50 @@ export function ProcessingModal({ isOpen, onClose, items, type, onComplete }: Pr
                                     {status.progress.failed > 0 && ` (${status.progress.failed} failed)`}
                                 </div>
                             )}
+
+                            {logs.length > 0 && (
+                                <div className="bg-muted/30 rounded p-2 max-h-32 overflow-auto font-mono text-[11px] space-y-0.5">
+                                    {logs.map((line, i) => (
+                                        <div
+                                            key={i}
+                                            className={line.level === 'error' ? 'text-destructive' : line.level === 'warn' ? 'text-yellow-700' : 'text-muted-foreground'}
+                                        >
+                                            {new Date(line.at).toLocaleTimeString()} {line.message}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            {isFinished && status.reports && (
+                                <JobItemReport reports={Object.values(status.reports)} />
+                            )}
                         </div>
                     )}
                 </div>
 
                 <DialogFooter>
+                    {canRetry && (
+                        <Button variant="outline" onClick={handleRetry} className="gap-2">
+                            <RotateCcw className="w-4 h-4" /> Retry failed
+                        </Button>
+                    )}
                     {status?.status === 'completed' ? (
                         <Button onClick={onClose}>Close</Button>
                     ) : (
-                        <Button variant="outline" onClick={handleCancel}>Cancel</Button>
+                        <>
+                            {status?.status === 'processing' && (
+                                <Button variant="outline" onClick={handlePause} disabled={pausing} className="gap-2">
+                                    {pausing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Pause className="w-4 h-4" />}
+                                    {pausing ? 'Pausing…' : 'Pause'}
+                                </Button>
+                            )}
+                            {status?.status === 'paused' && (
+                                <Button onClick={handleResume} className="gap-2">
+                                    <Play className="w-4 h-4" /> Resume
+                                </Button>
+                            )}
+                            <Button variant="outline" onClick={handleCancel}>Cancel</Button>
+                        </>
                     )}
                 </DialogFooter>
             </DialogContent>
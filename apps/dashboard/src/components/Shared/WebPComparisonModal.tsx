@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { Button } from '../ui/button';
+import { generateSlug } from '@repo/shared-types';
 import { imageApi } from '../../api';
 import { cn } from '../../lib/utils';
 import { Loader2, Check, X, AlertTriangle } from 'lucide-react';
@@ -49,9 +50,7 @@ export function WebPComparisonModal({ isOpen, onClose, imageUrl, targetId, targe
         try {
             // Use targetName for slug if available, fallback to targetId
             const nameForSlug = targetType === 'designers' ? targetName : targetId;
-            const slug = nameForSlug.toLowerCase()
-                .replace(/[^a-z0-9]+/g, '-')
-                .replace(/(^-|-$)+/g, '');
+            const slug = generateSlug(nameForSlug);
 
             const storageKey = targetType === 'designers'
                 ? `studios/${slug}.webp`
@@ -68,9 +67,7 @@ export function WebPComparisonModal({ isOpen, onClose, imageUrl, targetId, targe
     const handleAccept = () => {
         if (targetType === 'designers' && result) {
             const nameForSlug = targetType === 'designers' ? targetName : targetId;
-            const slug = nameForSlug.toLowerCase()
-                .replace(/[^a-z0-9]+/g, '-')
-                .replace(/(^-|-$)+/g, '');
+            const slug = generateSlug(nameForSlug);
 
             updateLocalDesigner(targetId, {
                 status: {
@@ -0,0 +1,150 @@
+import React, { useEffect, useMemo } from 'react';
+import { useSpotlightStore } from '../../stores/spotlightStore';
+import { useMoodboardStore } from '../../stores/moodboardStore';
+import { Sidebar } from '../Layout/Sidebar';
+import { Loader2, RefreshCcw, Layers, Check, AlertCircle, Star } from 'lucide-react';
+import { ProcessingModal } from '../Shared/ProcessingModal';
+import { Button } from '../ui/button';
+import { cn } from '../../lib/utils';
+import { Spotlight } from '@repo/shared-types';
+
+function formatDateRange(entry: Spotlight): string {
+    if (!entry.startDate) return 'No date';
+    return entry.endDate ? `${entry.startDate} → ${entry.endDate}` : entry.startDate;
+}
+
+export function SpotlightList() {
+    const [isProcessing, setIsProcessing] = React.useState(false);
+
+    const {
+        entries,
+        isLoading,
+        selectedIds,
+        toggleSelect,
+        selectAll,
+        clearSelection,
+        fetchEntries
+    } = useSpotlightStore();
+    const { products, fetchProducts } = useMoodboardStore();
+
+    useEffect(() => {
+        fetchEntries();
+        // Needed to show which product each entry features
+        fetchProducts();
+    }, [fetchEntries, fetchProducts]);
+
+    const productsById = useMemo(() => new Map(products.map(p => [p.id, p])), [products]);
+
+    if (isLoading && entries.length === 0) {
+        return (
+            <div className="flex-1 flex items-center justify-center">
+                <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex h-full">
+            <Sidebar>
+                <div className="space-y-6">
+                    <div>
+                        <h3 className="text-sm font-medium mb-2">Selection</h3>
+                        <div className="flex flex-col gap-2">
+                            <Button variant="outline" size="sm" onClick={selectAll} className="justify-start">Select All</Button>
+                            <Button variant="outline" size="sm" onClick={clearSelection} className="justify-start">Clear Selection</Button>
+                            <div className="text-xs text-muted-foreground px-2 mt-1">
+                                {selectedIds.size} selected
+                            </div>
+                        </div>
+                    </div>
+
+                    <div>
+                        <h3 className="text-sm font-medium mb-2">Actions</h3>
+                        <div className="flex flex-col gap-2">
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={selectedIds.size === 0}
+                                onClick={() => setIsProcessing(true)}
+                                className="w-full justify-start gap-2"
+                            >
+                                <Layers className="w-4 h-4" /> Batch Migrate
+                            </Button>
+                        </div>
+                    </div>
+
+                    <button
+                        onClick={() => fetchEntries(true)}
+                        className="w-full flex items-center justify-center gap-2 px-3 py-2 border rounded-md text-sm hover:bg-muted transition-colors mt-auto"
+                    >
+                        <RefreshCcw className="w-3 h-3" /> Refresh Items
+                    </button>
+                </div>
+            </Sidebar>
+
+            <div className="flex-1 p-6 overflow-auto bg-muted/10">
+                <div className="bg-card border rounded-lg divide-y">
+                    {entries.map(entry => {
+                        const product = productsById.get(entry.productIds[0]);
+                        const selected = selectedIds.has(entry.id);
+
+                        return (
+                            <div
+                                key={entry.id}
+                                onClick={() => toggleSelect(entry.id)}
+                                className={cn(
+                                    "flex items-center gap-4 px-4 py-3 cursor-pointer hover:bg-muted/50",
+                                    selected && "bg-primary/5"
+                                )}
+                            >
+                                <div className={cn(
+                                    "w-4 h-4 rounded border flex items-center justify-center",
+                                    selected ? "bg-primary border-primary" : "border-muted-foreground"
+                                )}>
+                                    {selected && <Check className="w-3 h-3 text-primary-foreground" />}
+                                </div>
+                                <Star className="w-4 h-4 text-muted-foreground" />
+                                <div className="flex-1 min-w-0">
+                                    <div className="text-sm font-medium truncate">{entry.name}</div>
+                                    <div className="text-xs text-muted-foreground truncate">
+                                        {product ? product.name : entry.productIds[0] || 'No related product'}
+                                        {entry.productIds.length > 1 && ` (+${entry.productIds.length - 1} more)`}
+                                    </div>
+                                </div>
+                                <div className="text-xs text-muted-foreground whitespace-nowrap">{formatDateRange(entry)}</div>
+                                <div className="flex gap-1 w-24 justify-end">
+                                    {entry.status?.migrated && (
+                                        <span className="bg-green-500/90 text-white text-[10px] px-1.5 py-0.5 rounded font-medium">Migrated</span>
+                                    )}
+                                    {entry.status?.needsUpdate && (
+                                        <span className="bg-blue-500/90 text-white text-[10px] px-1.5 py-0.5 rounded font-medium">Update</span>
+                                    )}
+                                    {(!entry.productIds.length || !entry.startDate) && (
+                                        <AlertCircle className="w-4 h-4 text-yellow-600" />
+                                    )}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+                {entries.length === 0 && (
+                    <div className="flex h-64 items-center justify-center text-muted-foreground">
+                        No spotlight entries found.
+                    </div>
+                )}
+            </div>
+
+            <ProcessingModal
+                isOpen={isProcessing}
+                items={Array.from(selectedIds)}
+                type="spotlight"
+                onClose={() => setIsProcessing(false)}
+                onComplete={() => {
+                    setIsProcessing(false);
+                    clearSelection();
+                    fetchEntries(true);
+                }}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,69 @@
+import { create } from 'zustand';
+import { notionApi } from '../api';
+import { Spotlight } from '@repo/shared-types';
+
+type ComparedSpotlight = Spotlight & { inTurso: boolean; lastMigrated: string | null; needsUpdate: boolean };
+
+interface SpotlightState {
+    entries: Spotlight[];
+    isLoading: boolean;
+    selectedIds: Set<string>;
+
+    fetchEntries: (force?: boolean) => Promise<void>;
+    toggleSelect: (id: string) => void;
+    selectAll: () => void;
+    clearSelection: () => void;
+}
+
+// Helper to get initial state from localStorage
+const STORAGE_KEY = 'migrator_spotlight_v1';
+const getInitialEntries = (): Spotlight[] => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch { return []; }
+};
+
+export const useSpotlightStore = create<SpotlightState>((set, get) => ({
+    entries: getInitialEntries(),
+    isLoading: false,
+    selectedIds: new Set(),
+
+    fetchEntries: async (force = false) => {
+        // Only fetch if forced OR if we have no cached data
+        if (!force && get().entries.length > 0) return;
+
+        set({ isLoading: true });
+        try {
+            const data = await notionApi.compareStatus('spotlight');
+            const entries = data.items.map((d: ComparedSpotlight) => ({
+                ...d,
+                status: {
+                    migrated: d.inTurso,
+                    migratedAt: d.lastMigrated,
+                    needsUpdate: d.needsUpdate,
+                    error: null
+                }
+            }));
+
+            set({ entries, isLoading: false });
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+        } catch (err) {
+            console.error(err);
+            set({ isLoading: false });
+        }
+    },
+
+    toggleSelect: (id) => set((state) => {
+        const newSelected = new Set(state.selectedIds);
+        if (newSelected.has(id)) newSelected.delete(id);
+        else newSelected.add(id);
+        return { selectedIds: newSelected };
+    }),
+
+    selectAll: () => set((state) => ({
+        selectedIds: new Set(state.entries.map(e => e.id))
+    })),
+
+    clearSelection: () => set({ selectedIds: new Set() }),
+}));
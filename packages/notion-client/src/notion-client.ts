@@ -0,0 +1,159 @@
+import { Client } from '@notionhq/client';
+import { QueryDatabaseParameters, QueryDatabaseResponse } from '@notionhq/client/build/src/api-endpoints';
+import { RateLimiter } from '@repo/shared-types';
+
+export interface NotionClientOptions {
+    auth?: string;
+    // Requests per second shared by every caller; 0 disables the limit
+    ratePerSecond: number;
+    // Attempts per request, including the first
+    attempts: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    // Whether a failed request is worth retrying; rate limits always are
+    isTransient?: (err: any) => boolean;
+}
+
+export interface NotionMetrics {
+    requests: number;
+    byOperation: Record<string, number>;
+    rateLimited: number;
+    retries: number;
+    failures: number;
+    // Time requests spent waiting for the limiter or a Retry-After, summed
+    waitMs: number;
+    lastRateLimitedAt: string | null;
+    since: string;
+}
+
+// Used when a 429 comes without a usable Retry-After
+const DEFAULT_RETRY_AFTER_MS = 1000;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 15_000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Retry-After in ms from an SDK error's response headers, if present
+ */
+function retryAfterMs(err: any): number | null {
+    const headers = err?.headers;
+    const value = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+    if (value === undefined || value === null || value === '') return null;
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Timeouts, 408/5xx responses and dropped connections
+ */
+function isTransientError(err: any): boolean {
+    const status = err?.status;
+    if (status === 408 || status >= 500) return true;
+    return /timed? ?out|socket hang up|fetch failed|network|ECONNRESET|ETIMEDOUT|EAI_AGAIN/i.test(`${err?.message ?? ''} ${err?.code ?? ''}`);
+}
+
+/**
+ * Notion SDK client behind a token bucket, shared by the API and the scripts. Rate-limited requests wait for
+ * Retry-After (pausing every other caller too), and transient failures are
+ * retried with exponential backoff and full jitter.
+ */
+export class NotionClient {
+    private client: Client;
+    private limiter: RateLimiter;
+    private metrics: NotionMetrics;
+
+    constructor(private options: NotionClientOptions) {
+        this.client = new Client({ auth: options.auth });
+        this.limiter = new RateLimiter(options.ratePerSecond);
+        this.metrics = this.emptyMetrics();
+    }
+
+    /**
+     * Run one Notion request; `operation` names it in the metrics, e.g. 'pages.retrieve'
+     */
+    async request<T>(operation: string, fn: (client: Client) => Promise<T>): Promise<T> {
+        for (let attempt = 1; ; attempt++) {
+            const waitStart = Date.now();
+            await this.limiter.acquire();
+            this.metrics.waitMs += Date.now() - waitStart;
+            this.metrics.requests++;
+            this.metrics.byOperation[operation] = (this.metrics.byOperation[operation] ?? 0) + 1;
+
+            try {
+                return await fn(this.client);
+            } catch (err: any) {
+                const rateLimited = err?.status === 429 || err?.code === 'rate_limited';
+                if (rateLimited) {
+                    this.metrics.rateLimited++;
+                    this.metrics.lastRateLimitedAt = new Date().toISOString();
+                }
+
+                const isTransient = this.options.isTransient ?? isTransientError;
+                if (attempt >= this.options.attempts || (!rateLimited && !isTransient(err))) {
+                    this.metrics.failures++;
+                    throw err;
+                }
+
+                const { baseDelayMs = DEFAULT_BASE_DELAY_MS, maxDelayMs = DEFAULT_MAX_DELAY_MS } = this.options;
+                const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+                const delay = rateLimited
+                    ? retryAfterMs(err) ?? DEFAULT_RETRY_AFTER_MS
+                    : Math.round(Math.random() * backoff);
+                if (rateLimited) this.limiter.pause(delay);
+
+                console.warn(`[notion] ${operation} attempt ${attempt} failed (${rateLimited ? 'rate limited' : err.message}). Retrying in ${delay}ms`);
+                this.metrics.retries++;
+                this.metrics.waitMs += delay;
+                await sleep(delay);
+            }
+        }
+    }
+
+    /**
+     * Every page of a database query, following the cursor; `onPage` is
+     * called before each page is fetched
+     */
+    async queryAll(
+        params: Omit<QueryDatabaseParameters, 'start_cursor' | 'page_size'>,
+        onPage?: (page: number) => void
+    ): Promise<QueryDatabaseResponse['results']> {
+        const results: QueryDatabaseResponse['results'] = [];
+        let cursor: string | undefined = undefined;
+        let page = 0;
+
+        do {
+            onPage?.(++page);
+            const response: QueryDatabaseResponse = await this.request('databases.query', client =>
+                client.databases.query({ ...params, start_cursor: cursor, page_size: 100 }));
+            results.push(...response.results);
+            cursor = response.next_cursor ?? undefined;
+        } while (cursor);
+
+        return results;
+    }
+
+    getMetrics(): NotionMetrics {
+        return { ...this.metrics, byOperation: { ...this.metrics.byOperation } };
+    }
+
+    resetMetrics() {
+        this.metrics = this.emptyMetrics();
+    }
+
+    private emptyMetrics(): NotionMetrics {
+        return {
+            requests: 0,
+            byOperation: {},
+            rateLimited: 0,
+            retries: 0,
+            failures: 0,
+            waitMs: 0,
+            lastRateLimitedAt: null,
+            since: new Date().toISOString(),
+        };
+    }
+}
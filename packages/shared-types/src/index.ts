@@ -16,6 +16,7 @@ export interface Designer {
     email: string;
     published: boolean;
     notionStatus?: 'Published' | 'Draft' | 'Archived' | string;
+    lastEditedTime?: string;
     status?: MigrationStatus;
 }
 
@@ -29,6 +30,7 @@ export interface MoodboardProduct {
     link: string;
     published?: boolean;
     notionStatus?: 'Published' | 'Draft' | 'Archived' | string;
+    lastEditedTime?: string;
     images: Array<{
         url: string;
         position: number;
@@ -37,10 +39,67 @@ export interface MoodboardProduct {
     status?: MigrationStatus;
 }
 
+export interface Spotlight {
+    id: string;
+    notionId: string;
+    name: string;
+    // Notion page IDs of the related moodboard products; the first one is featured
+    productIds: string[];
+    startDate: string | null;
+    endDate: string | null;
+    published: boolean;
+    notionStatus?: 'Published' | 'Draft' | 'Archived' | string;
+    lastEditedTime?: string;
+    status?: MigrationStatus;
+}
+
 export interface MigrationStats {
     total: number;
     published: number;
     migrated: number;
     pending: number;
-    items: (Designer | MoodboardProduct)[];
+    items: (Designer | MoodboardProduct | Spotlight)[];
+}
+
+export type MigrationStepName = 'snapshot' | 'download' | 'convert' | 'upload' | 'enrichment' | 'embed' | 'turso' | 'remove';
+
+export interface StepTiming {
+    step: MigrationStepName;
+    label?: string; // e.g. "image 2"
+    startedAt: string;
+    durationMs: number;
+    status: 'running' | 'success' | 'failed';
+    attempts?: number;
+    error?: string;
 }
+
+export interface ImageReport {
+    index: number;
+    bytesBefore: number;
+    bytesAfter: number;
+    ssim: number;
+    strategy: string;
+    r2Key: string;
+    vectorId?: string;
+    /** Previous position of an image that was copied rather than re-encoded */
+    movedFrom?: number;
+    /** Source bytes matched the stored hash, so the existing WebP was kept */
+    unchanged?: boolean;
+}
+
+export interface ItemReport {
+    id: string;
+    name: string;
+    status: 'processing' | 'success' | 'failed' | 'removed' | 'skipped';
+    startedAt: string;
+    finishedAt?: string;
+    durationMs?: number;
+    steps: StepTiming[];
+    images: ImageReport[];
+    r2Keys: string[];
+    vectorIds: string[];
+}
+
+export * from './slug';
+export * from './slug-registry';
+export * from './rate-limiter';
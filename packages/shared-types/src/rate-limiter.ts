@@ -0,0 +1,79 @@
+/**
+ * Token bucket limiter shared by every caller of an external API.
+ * Tokens refill continuously at `ratePerSecond`, up to `burst`.
+ * A rate of 0 disables limiting.
+ */
+export class RateLimiter {
+    private tokens: number;
+    private lastRefill = Date.now();
+    private pausedUntil = 0;
+    private waiting: Array<() => void> = [];
+    private timer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(private ratePerSecond: number, private burst = Math.max(1, ratePerSecond)) {
+        this.tokens = burst;
+    }
+
+    acquire(): Promise<void> {
+        if (!this.ratePerSecond) return Promise.resolve();
+
+        return new Promise(resolve => {
+            this.waiting.push(resolve);
+            this.drain();
+        });
+    }
+
+    /**
+     * Wait for a token, then run `fn`
+     */
+    async run<T>(fn: () => Promise<T>): Promise<T> {
+        await this.acquire();
+        return fn();
+    }
+
+    /**
+     * Hand out no tokens for `ms`, e.g. after the API answered 429 with Retry-After
+     */
+    pause(ms: number) {
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        this.drain();
+    }
+
+    private refill() {
+        const now = Date.now();
+        this.tokens = Math.min(this.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.ratePerSecond);
+        this.lastRefill = now;
+    }
+
+    private drain() {
+        const pausedMs = this.pausedUntil - Date.now();
+        if (pausedMs > 0) {
+            if (this.waiting.length > 0 && !this.timer) {
+                this.timer = setTimeout(() => {
+                    this.timer = null;
+                    this.drain();
+                }, pausedMs);
+            }
+            return;
+        }
+
+        this.refill();
+
+        while (this.waiting.length > 0 && this.tokens >= 1) {
+            this.tokens--;
+            this.waiting.shift()!();
+        }
+
+        if (this.waiting.length > 0 && !this.timer) {
+            const waitMs = Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000);
+            this.timer = setTimeout(() => {
+                this.timer = null;
+                this.drain();
+            }, waitMs);
+        }
+    }
+}
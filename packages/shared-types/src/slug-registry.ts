@@ -0,0 +1,160 @@
+import { generateLegacySlug, generateSlug } from './slug';
+
+export type SlugTable = 'studios' | 'products';
+
+/**
+ * The part of a libsql client the registry needs, so the API and the scripts
+ * can pass their own
+ */
+export interface SlugDatabase {
+    execute(stmt: { sql: string; args: Array<string | null> }): Promise<{ rows: Array<Record<string, unknown>> }>;
+}
+
+export interface SlugRegistry {
+    /** Slug the name produces before any disambiguation */
+    base(name: string): string;
+    /** Pick and reserve the slug for an item about to be written, with the item's current slug */
+    assign(table: SlugTable, notionId: string, name: string): Promise<{ slug: string; previous: string | null }>;
+    /** The slug `assign` would pick, without reserving it (for dry runs) */
+    preview(table: SlugTable, notionId: string, name: string, current: string | null): Promise<string>;
+    /** Drop the item's reservation once its row was written, or failed to be */
+    release(table: SlugTable, notionId: string, slug: string): void;
+    /**
+     * Record that `from` now lives at `to` so the public site can 301. Earlier
+     * redirects of the item are repointed so there are never chains.
+     * `beforeWrite` receives the IDs of every redirect row about to change.
+     */
+    recordRedirect(
+        table: SlugTable,
+        notionId: string,
+        from: string,
+        to: string,
+        beforeWrite?: (ids: string[]) => Promise<void>
+    ): Promise<void>;
+}
+
+// Entity name used in slug_redirects, read by the public site
+const ENTITIES: Record<SlugTable, string> = {
+    studios: 'studio',
+    products: 'product',
+};
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Unique, stable slugs for studios and products, shared by the API and the
+ * migration scripts so neither renames what the other wrote. An item keeps its
+ * slug while its name still produces it, with either the current or the
+ * original scripts' slug function; otherwise it gets the base slug or the first
+ * free `<base>-2`, `<base>-3`... Slugs used by another item, still redirecting
+ * to one, or reserved for one being written, count as taken.
+ */
+export function createSlugRegistry(db: SlugDatabase): SlugRegistry {
+    // Slugs handed out but possibly not written yet, so items migrated
+    // concurrently can't pick the same one
+    const reserved = new Map<string, string>();
+
+    function base(name: string): string {
+        return generateSlug(name) || 'untitled';
+    }
+
+    async function isTaken(table: SlugTable, slug: string, notionId: string) {
+        const holder = reserved.get(`${table}:${slug}`);
+        if (holder && holder !== notionId) return true;
+
+        const result = await db.execute({
+            sql: `
+                SELECT 1 FROM ${table} WHERE slug = ? AND notion_id != ?
+                UNION ALL
+                SELECT 1 FROM slug_redirects WHERE entity = ? AND old_slug = ? AND notion_id != ?
+                LIMIT 1
+            `,
+            args: [slug, notionId, ENTITIES[table], slug, notionId]
+        });
+        return result.rows.length > 0;
+    }
+
+    async function pick(table: SlugTable, notionId: string, name: string, current: string | null, reserve: boolean) {
+        const slugBase = base(name);
+
+        // Keep a disambiguated slug as long as the name hasn't changed
+        const bases = [slugBase, generateLegacySlug(name)].filter(Boolean).map(escapeRegExp);
+        if (current && new RegExp(`^(${bases.join('|')})(-\\d+)?$`).test(current)) {
+            if (reserve) reserved.set(`${table}:${current}`, notionId);
+            return current;
+        }
+
+        for (let n = 1; ; n++) {
+            const candidate = n === 1 ? slugBase : `${slugBase}-${n}`;
+            if (await isTaken(table, candidate, notionId)) continue;
+
+            // Checked again after the await: another item may have reserved it meanwhile
+            const key = `${table}:${candidate}`;
+            const holder = reserved.get(key);
+            if (holder && holder !== notionId) continue;
+
+            if (reserve) reserved.set(key, notionId);
+            return candidate;
+        }
+    }
+
+    return {
+        base,
+
+        async assign(table, notionId, name) {
+            const result = await db.execute({
+                sql: `SELECT slug FROM ${table} WHERE notion_id = ?`,
+                args: [notionId]
+            });
+            const previous = (result.rows[0]?.['slug'] as string | undefined) ?? null;
+
+            const slug = await pick(table, notionId, name, previous, true);
+            return { slug, previous };
+        },
+
+        preview(table, notionId, name, current) {
+            return pick(table, notionId, name, current, false);
+        },
+
+        release(table, notionId, slug) {
+            const key = `${table}:${slug}`;
+            if (reserved.get(key) === notionId) reserved.delete(key);
+        },
+
+        async recordRedirect(table, notionId, from, to, beforeWrite) {
+            const entity = ENTITIES[table];
+            const id = `${entity}:${from}`;
+
+            if (beforeWrite) {
+                const existing = await db.execute({
+                    sql: 'SELECT id FROM slug_redirects WHERE entity = ? AND (notion_id = ? OR old_slug = ?)',
+                    args: [entity, notionId, to]
+                });
+                await beforeWrite([...existing.rows.map(row => row['id'] as string), id]);
+            }
+
+            await db.execute({
+                sql: 'UPDATE slug_redirects SET new_slug = ? WHERE entity = ? AND notion_id = ?',
+                args: [to, entity, notionId]
+            });
+            // The item may be moving back to one of its old slugs
+            await db.execute({
+                sql: 'DELETE FROM slug_redirects WHERE entity = ? AND old_slug = ?',
+                args: [entity, to]
+            });
+            await db.execute({
+                sql: `
+                    INSERT INTO slug_redirects (id, entity, old_slug, new_slug, notion_id, created_at)
+                    VALUES (?, ?, ?, ?, ?, ?)
+                    ON CONFLICT(id) DO UPDATE SET
+                        new_slug=excluded.new_slug,
+                        notion_id=excluded.notion_id,
+                        created_at=excluded.created_at
+                `,
+                args: [id, entity, from, to, notionId, new Date().toISOString()]
+            });
+        },
+    };
+}
@@ -0,0 +1,22 @@
+/**
+ * URL slug for a display name. Shared so the API, dashboard and scripts agree
+ * on R2 keys and public URLs; uniqueness is handled by createSlugRegistry.
+ */
+export function generateSlug(name: string): string {
+    return name.toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/(^-|-$)+/g, '');
+}
+
+/**
+ * Slug the original migration scripts produced ("O'Neil" -> "oneil", at most
+ * 100 characters). Items that already have one keep it rather than being renamed.
+ */
+export function generateLegacySlug(name: string): string {
+    return name.toLowerCase()
+        .trim()
+        .replace(/[^\w\s-]/g, '')
+        .replace(/\s+/g, '-')
+        .replace(/-+/g, '-')
+        .substring(0, 100);
+}
@@ -31,6 +31,7 @@ async function createSchema() {
       latitude REAL,
       longitude REAL,
       description TEXT,
+      cover_source_hash TEXT,
       created_at TEXT DEFAULT (datetime('now')),
       updated_at TEXT DEFAULT (datetime('now'))
     )
@@ -119,6 +120,7 @@ async function createSchema() {
       enrichment_json TEXT,
       enrichment_version TEXT,
       enrichment_source TEXT,
+      source_hash TEXT,
       created_at TEXT NOT NULL,
       FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE
     )
@@ -134,6 +136,8 @@ async function createSchema() {
       embedding_text TEXT NOT NULL,
       enrichment_version TEXT,
       enrichment_source TEXT,
+      status TEXT NOT NULL DEFAULT 'indexed',
+      last_error TEXT,
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL,
       FOREIGN KEY (image_id) REFERENCES product_images(id) ON DELETE CASCADE,
@@ -167,6 +171,28 @@ async function createSchema() {
     ON product_embeddings(vector_id)
   `);
 
+  await turso.execute(`
+    CREATE INDEX IF NOT EXISTS idx_product_embeddings_status 
+    ON product_embeddings(status)
+  `);
+
+  // Old slugs of renamed studios/products (id is "<entity>:<old_slug>")
+  await turso.execute(`
+    CREATE TABLE IF NOT EXISTS slug_redirects (
+      id TEXT PRIMARY KEY,
+      entity TEXT NOT NULL,
+      old_slug TEXT NOT NULL,
+      new_slug TEXT NOT NULL,
+      notion_id TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      UNIQUE (entity, old_slug)
+    )
+  `);
+
+  await turso.execute(`
+    CREATE INDEX IF NOT EXISTS idx_slug_redirects_notion_id ON slug_redirects(notion_id)
+  `);
+
   console.log('✅ Schema created successfully!');
 }
 
@@ -0,0 +1,42 @@
+/**
+ * Rate-limited Notion Client
+ *
+ * The scripts' instance of NotionClient (@repo/notion-client), which the API
+ * uses too: every request goes through a token bucket, 429s wait for
+ * Retry-After and transient failures are retried with backoff.
+ *
+ * Environment:
+ * - RATE_LIMIT_NOTION: requests per second (default 3, 0 disables the limit)
+ * - NOTION_RETRY_ATTEMPTS: attempts per request (default 5)
+ */
+
+import { NotionClient } from '@repo/notion-client';
+
+function envNumber(key, fallback) {
+    const value = process.env[key];
+    return value !== undefined && value !== '' && !isNaN(Number(value)) ? Number(value) : fallback;
+}
+
+/**
+ * Create a Notion client whose requests share one rate limit
+ *
+ * @param {string} auth - Notion integration token
+ * @returns {NotionClient}
+ */
+export function createNotionClient(auth) {
+    return new NotionClient({
+        auth,
+        ratePerSecond: envNumber('RATE_LIMIT_NOTION', 3),
+        attempts: Math.max(1, envNumber('NOTION_RETRY_ATTEMPTS', 5)),
+    });
+}
+
+/**
+ * Print the client's request counts for the run summary
+ *
+ * @param {NotionClient} notion
+ */
+export function logNotionMetrics(notion) {
+    const metrics = notion.getMetrics();
+    console.log(`📡 Notion: ${metrics.requests} request(s), ${metrics.rateLimited} rate limited, ${metrics.retries} retried, ${metrics.failures} failed`);
+}
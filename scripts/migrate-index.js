@@ -1,10 +1,11 @@
 import { createClient } from '@libsql/client';
-import { Client } from '@notionhq/client';
 import { S3Client, PutObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
 import sharp from 'sharp';
 import crypto from 'crypto';
 import dotenv from 'dotenv';
 import fetch from 'node-fetch';
+import { createSlugRegistry } from '@repo/shared-types';
+import { createNotionClient, logNotionMetrics } from './lib/notion-client.js';
 
 dotenv.config();
 
@@ -15,7 +16,7 @@ if (!notionToken) {
   process.exit(1);
 }
 
-const notion = new Client({ auth: notionToken });
+const notion = createNotionClient(notionToken);
 
 // Initialize Turso client
 const turso = createClient({
@@ -23,6 +24,9 @@ const turso = createClient({
   authToken: process.env.TURSO_AUTH_TOKEN
 });
 
+// Same slugs as the API, unique across studios and their redirects
+const slugs = createSlugRegistry(turso);
+
 // Initialize Cloudflare R2 client
 const r2Client = new S3Client({
   region: 'auto',
@@ -33,17 +37,6 @@ const r2Client = new S3Client({
   },
 });
 
-// Helper: Generate slug
-function generateSlug(name) {
-  return name
-    .toLowerCase()
-    .trim()
-    .replace(/[^\w\s-]/g, '')
-    .replace(/\s+/g, '-')
-    .replace(/-+/g, '-')
-    .substring(0, 100);
-}
-
 // Helper: Extract Notion properties
 function getProp(properties, key, type) {
   const prop = properties[key];
@@ -146,26 +139,15 @@ async function studioExists(notionId) {
 async function migrateStudios() {
   console.log('🏢 Migrating PUBLISHED studios only...\n');
 
-  let studios = [];
-  let cursor = null;
-
-  do {
-    const res = await notion.databases.query({
-      database_id: process.env.NOTION_DATABASE_ID,
-      start_cursor: cursor || undefined,
-      page_size: 100,
-      filter: {
-        property: 'Status',
-        status: {
-          equals: 'Published'
-        }
+  const studios = await notion.queryAll({
+    database_id: process.env.NOTION_DATABASE_ID,
+    filter: {
+      property: 'Status',
+      status: {
+        equals: 'Published'
       }
-    });
-
-    studios.push(...res.results);
-    cursor = res.next_cursor;
-    if (cursor) await new Promise(r => setTimeout(r, 300));
-  } while (cursor);
+    }
+  });
 
   console.log(`📊 Found ${studios.length} published studios\n`);
 
@@ -175,7 +157,6 @@ async function migrateStudios() {
   for (const page of studios) {
     const props = page.properties;
     const name = getProp(props, 'Name', 'title') || 'Untitled';
-    const slug = generateSlug(name);
 
     if (await studioExists(page.id)) {
       console.log(`⏭️  Skipping already migrated: "${name}"`);
@@ -183,6 +164,8 @@ async function migrateStudios() {
       continue;
     }
 
+    const { slug } = await slugs.assign('studios', page.id, name);
+
     console.log(`➡️  Migrating "${name}"`);
 
     let coverUrl = null;
@@ -220,7 +203,7 @@ async function migrateStudios() {
         page.created_time,
         page.last_edited_time
       ]
-    });
+    }).finally(() => slugs.release('studios', page.id, slug));
 
     inserted++;
     await new Promise(r => setTimeout(r, 500));
@@ -237,5 +220,6 @@ async function migrateStudios() {
 (async () => {
   console.log('🚀 Starting Notion → Turso migration\n');
   await migrateStudios();
+  logNotionMetrics(notion);
   process.exit(0);
 })();
@@ -1,9 +1,9 @@
 import { createClient } from '@libsql/client';
-import { Client } from '@notionhq/client';
 import { S3Client, PutObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
 import sharp from 'sharp';
 import crypto from 'crypto';
 import dotenv from 'dotenv';
+import { createSlugRegistry } from '@repo/shared-types';
 import {
   scrapeSource,
   enrichSemantics,
@@ -12,6 +12,7 @@ import {
   clearCaches,
   generateFallbackEnrichment,
 } from './lib/semantic-enrichment.js';
+import { createNotionClient, logNotionMetrics } from './lib/notion-client.js';
 
 dotenv.config();
 
@@ -22,7 +23,7 @@ if (!notionToken) {
   process.exit(1);
 }
 
-const notion = new Client({ auth: notionToken });
+const notion = createNotionClient(notionToken);
 
 // Initialize Turso client
 const turso = createClient({
@@ -30,6 +31,9 @@ const turso = createClient({
   authToken: process.env.TURSO_AUTH_TOKEN
 });
 
+// Same slugs as the API, unique across products and their redirects
+const slugs = createSlugRegistry(turso);
+
 // Initialize R2 client (S3-compatible)
 const r2 = new S3Client({
   region: 'auto',
@@ -67,17 +71,6 @@ console.log('✅ Vectorize API:', VECTORIZE_API_URL ? 'Set' : '⚠️  Optional
 console.log('✅ AI API:', AI_API_URL ? 'Set' : '⚠️  Optional (not set)');
 console.log('');
 
-// Helper: Generate URL-friendly slug
-function generateSlug(name) {
-  return name
-    .toLowerCase()
-    .trim()
-    .replace(/[^\w\s-]/g, '')
-    .replace(/\s+/g, '-')
-    .replace(/-+/g, '-')
-    .substring(0, 100);
-}
-
 // Helper: Extract property values from Notion
 function getProp(properties, key, type) {
   const prop = properties[key];
@@ -223,6 +216,8 @@ async function createTables() {
       embedding_text TEXT NOT NULL,
       enrichment_version TEXT,
       enrichment_source TEXT,
+      status TEXT NOT NULL DEFAULT 'indexed',
+      last_error TEXT,
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL,
       FOREIGN KEY (image_id) REFERENCES product_images(id) ON DELETE CASCADE,
@@ -313,32 +308,16 @@ async function migrateMoodboard(useAI = true) {
     console.log('');
   }
 
-  let allItems = [];
-  let cursor = null;
-  let pageNum = 0;
-
   // Fetch all pages from Notion
-  do {
-    pageNum++;
-    console.log(`📄 Fetching moodboard page ${pageNum}...`);
-
-    const response = await notion.databases.query({
-      database_id: process.env.NOTION_MOODBOARD_ID,
-      start_cursor: cursor || undefined,
-      page_size: 100,
-      filter: {
-        property: 'Status',
-        select: {
-          equals: 'Published'
-        }
+  const allItems = await notion.queryAll({
+    database_id: process.env.NOTION_MOODBOARD_ID,
+    filter: {
+      property: 'Status',
+      select: {
+        equals: 'Published'
       }
-    });
-
-    allItems = allItems.concat(response.results);
-    cursor = response.next_cursor;
-
-    if (cursor) await new Promise(r => setTimeout(r, 300));
-  } while (cursor);
+    }
+  }, pageNum => console.log(`📄 Fetching moodboard page ${pageNum}...`));
 
   console.log(`📊 Found ${allItems.length} moodboard items total\n`);
 
@@ -367,6 +346,8 @@ async function migrateMoodboard(useAI = true) {
         city: getProp(props, 'City', 'select') || getProp(props, 'City', 'rich_text'),
       };
 
+      const { slug, previous } = await slugs.assign('products', page.id, name);
+
       // Insert product
       await turso.execute({
         sql: `
@@ -388,7 +369,7 @@ async function migrateMoodboard(useAI = true) {
         args: [
           productId,
           page.id,
-          generateSlug(name),
+          slug,
           getProp(props, 'Status', 'status') || 'Published',
           name,
           productData.designer,
@@ -399,7 +380,12 @@ async function migrateMoodboard(useAI = true) {
           page.created_time,
           page.last_edited_time
         ]
-      });
+      }).finally(() => slugs.release('products', page.id, slug));
+
+      if (previous && previous !== slug) {
+        await slugs.recordRedirect('products', page.id, previous, slug);
+        console.log(`  ↪️  Slug changed: ${previous} → ${slug}`);
+      }
 
       productsInserted++;
       console.log(`  ✅ Product inserted`);
@@ -675,6 +661,7 @@ async function runMigration() {
     console.log('\n📄 View embedding text samples:');
     console.log("SELECT id, embedding_text, enrichment_source FROM product_images LIMIT 3;");
 
+    logNotionMetrics(notion);
     process.exit(0);
   } catch (err) {
     console.error('💥 Migration failed:', err);
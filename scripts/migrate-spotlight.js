@@ -1,6 +1,6 @@
 import { createClient } from '@libsql/client';
-import { Client } from '@notionhq/client';
 import dotenv from 'dotenv';
+import { createNotionClient, logNotionMetrics } from './lib/notion-client.js';
 
 dotenv.config();
 
@@ -11,7 +11,7 @@ if (!notionToken) {
   process.exit(1);
 }
 
-const notion = new Client({ auth: notionToken });
+const notion = createNotionClient(notionToken);
 
 // Initialize Turso client
 const turso = createClient({
@@ -77,26 +77,10 @@ async function createSpotlightTable() {
 async function migrateSpotlight() {
   console.log('🌟 Migrating Spotlight from Notion...');
 
-  let allItems = [];
-  let cursor = null;
-  let pageNum = 0;
-
   // Fetch all pages from Notion
-  do {
-    pageNum++;
-    console.log(`📄 Fetching spotlight page ${pageNum}...`);
-
-    const response = await notion.databases.query({
-      database_id: process.env.NOTION_SPOTLIGHT_ID,
-      start_cursor: cursor || undefined,
-      page_size: 100
-    });
-
-    allItems = allItems.concat(response.results);
-    cursor = response.next_cursor;
-
-    if (cursor) await new Promise(r => setTimeout(r, 300));
-  } while (cursor);
+  const allItems = await notion.queryAll({
+    database_id: process.env.NOTION_SPOTLIGHT_ID
+  }, pageNum => console.log(`📄 Fetching spotlight page ${pageNum}...`));
 
   console.log(`📊 Found ${allItems.length} spotlight items total\n`);
 
@@ -205,6 +189,7 @@ async function runMigration() {
     console.log('FROM spotlight s');
     console.log('LEFT JOIN products p ON s.product_id = p.id;');
 
+    logNotionMetrics(notion);
     process.exit(0);
   } catch (err) {
     console.error('💥 Migration failed:', err);
@@ -14,6 +14,9 @@
  *   node scripts/regenerate-embeddings.js --no-ai    # Use fallback only
  *   node scripts/regenerate-embeddings.js --dry-run  # Preview without writing
  *   node scripts/regenerate-embeddings.js --fix-vectors  # Re-upsert all vectors to Vectorize
+ *
+ * The API runs this as a tracked job: POST /api/migration/embeddings/regenerate
+ * (`{ force, dryRun }`), or the moodboard "Re-enrich & embed" scope.
  */
 
 import { createClient } from '@libsql/client';